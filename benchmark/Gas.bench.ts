@@ -0,0 +1,239 @@
+import { ethers, network } from 'hardhat'
+import { expect } from 'chai'
+import fs from 'fs'
+import path from 'path'
+import { BigNumber, Contract, ContractFactory, ContractTransaction, utils, Wallet } from 'ethers'
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
+import { advanceTimeAndBlock, latest } from '../test/utils/time'
+import { getDefaultLaunchpegConfig, initializePhasesLaunchpeg, LaunchpegConfig, Phase } from '../test/utils/helpers'
+import { compareGasMeasurements, formatGasReportMarkdown, GasBudget, GasMeasurements } from './gas-report'
+
+const BASELINE_PATH = path.join(__dirname, 'gas-baseline.json')
+const BUDGET_PATH = path.join(__dirname, 'gas-budget.json')
+const REPORT_DIR = path.join(__dirname, 'report')
+
+const SEED_ALLOWLIST_CHUNK_SIZES = [50, 100, 200, 500]
+const REVEAL_COLLECTION_SIZE = 1000
+const REVEAL_BATCH_SIZE = 50
+
+describe('Gas benchmark', () => {
+  let launchpegCF: ContractFactory
+  let launchpeg: Contract
+
+  let config: LaunchpegConfig
+
+  let signers: SignerWithAddress[]
+  let projectOwner: SignerWithAddress
+  let royaltyReceiver: SignerWithAddress
+
+  const measurements: GasMeasurements = {}
+
+  before(async () => {
+    launchpegCF = await ethers.getContractFactory('Launchpeg')
+
+    signers = await ethers.getSigners()
+    projectOwner = signers[3]
+    royaltyReceiver = signers[4]
+
+    await network.provider.request({
+      method: 'hardhat_reset',
+      params: [
+        {
+          live: false,
+          saveDeployments: true,
+          tags: ['test', 'local'],
+        },
+      ],
+    })
+  })
+
+  const deployLaunchpeg = async () => {
+    launchpeg = await launchpegCF.deploy()
+    await launchpeg.initialize(
+      'JoePEG',
+      'JOEPEG',
+      projectOwner.address,
+      royaltyReceiver.address,
+      config.maxBatchSize,
+      config.collectionSize,
+      config.amountForAuction,
+      config.amountForAllowlist,
+      config.amountForDevs,
+      config.batchRevealSize,
+      config.batchRevealStart,
+      config.batchRevealInterval
+    )
+  }
+
+  const measure = async (name: string, tx: Promise<ContractTransaction>) => {
+    const receipt = await (await tx).wait()
+    measurements[name] = receipt.gasUsed.toNumber()
+  }
+
+  // Derived from an index so that every run uses the same accounts
+  const getPrivateKey = (label: string, index: number) =>
+    utils.keccak256(utils.defaultAbiCoder.encode(['string', 'uint256'], [label, index]))
+
+  // Every mint is done by a new wallet, like a first time buyer
+  let walletCount = 0
+  const newWallet = async () => {
+    const wallet = new Wallet(getPrivateKey('wallet', walletCount++), ethers.provider)
+    await signers[0].sendTransaction({ to: wallet.address, value: utils.parseEther('100') })
+    return wallet
+  }
+
+  // The first mint of a phase writes to empty slots, it is done before measuring the other ones
+  const measureMints = async (method: string, price: BigNumber) => {
+    await launchpeg.connect(await newWallet())[method](1, { value: price })
+    for (let quantity = 1; quantity <= config.maxBatchSize; quantity++) {
+      const wallet = await newWallet()
+      await measure(
+        `${method}/${quantity}`,
+        launchpeg.connect(wallet)[method](quantity, { value: price.mul(quantity) })
+      )
+    }
+  }
+
+  describe('Mints', () => {
+    before(async () => {
+      config = await getDefaultLaunchpegConfig()
+      await deployLaunchpeg()
+      await initializePhasesLaunchpeg(launchpeg, config, Phase.DutchAuction)
+    })
+
+    it('auctionMint', async () => {
+      await measureMints('auctionMint', config.startPrice)
+    })
+
+    it('devMint', async () => {
+      // Dev mints are done by multiples of maxBatchSize
+      await launchpeg.connect(projectOwner).devMint(config.maxBatchSize)
+      for (let batches = 1; batches <= config.maxBatchSize; batches++) {
+        const quantity = batches * config.maxBatchSize
+        await measure(`devMint/${quantity}`, launchpeg.connect(projectOwner).devMint(quantity))
+      }
+    })
+
+    it('allowlistMint', async () => {
+      const firstWallet = walletCount
+      const wallets = config.maxBatchSize + 1
+      await launchpeg.seedAllowlist(
+        Array.from({ length: wallets }, (_, i) => new Wallet(getPrivateKey('wallet', firstWallet + i)).address),
+        Array(wallets).fill(config.maxBatchSize)
+      )
+      await advanceTimeAndBlock(config.allowlistStartTime.sub(await latest()))
+      await measureMints('allowlistMint', await launchpeg.getAllowlistPrice())
+    })
+
+    it('publicSaleMint', async () => {
+      await advanceTimeAndBlock(config.publicSaleStartTime.sub(await latest()))
+      await measureMints('publicSaleMint', await launchpeg.getPublicSalePrice())
+    })
+  })
+
+  describe('Allowlist', () => {
+    before(async () => {
+      config = await getDefaultLaunchpegConfig()
+      await deployLaunchpeg()
+    })
+
+    it('seedAllowlist', async () => {
+      let seeded = 0
+      for (const chunkSize of SEED_ALLOWLIST_CHUNK_SIZES) {
+        const addresses = Array.from(
+          { length: chunkSize },
+          (_, i) => new Wallet(getPrivateKey('allowlist', seeded + i)).address
+        )
+        seeded += chunkSize
+        await measure(`seedAllowlist/${chunkSize}`, launchpeg.seedAllowlist(addresses, Array(chunkSize).fill(1)))
+      }
+    })
+  })
+
+  describe('Reveal', () => {
+    const keyHash = utils.formatBytes32String('Oxff')
+    // tokenURI depends on the batch seeds. The pseudo-random ones come from the block hashes, which change between
+    // runs, so tokenURI is measured on a copy of the collection revealed by the VRF mock, whose words only depend on
+    // the request ids
+    let vrfLaunchpeg: Contract
+    let coordinatorMock: Contract
+
+    const deployRevealCollection = async () => {
+      config = await getDefaultLaunchpegConfig()
+      config.collectionSize = REVEAL_COLLECTION_SIZE
+      config.amountForDevs = REVEAL_COLLECTION_SIZE
+      config.amountForAuction = 0
+      config.amountForAllowlist = 0
+      config.batchRevealSize = REVEAL_BATCH_SIZE
+      config.batchRevealStart = BigNumber.from(0)
+      config.batchRevealInterval = BigNumber.from(0)
+      await deployLaunchpeg()
+      await initializePhasesLaunchpeg(launchpeg, config, Phase.DutchAuction)
+      await launchpeg.connect(projectOwner).devMint(REVEAL_COLLECTION_SIZE)
+      return launchpeg
+    }
+
+    before(async () => {
+      coordinatorMock = await (await ethers.getContractFactory('VRFCoordinatorV2Mock')).deploy(1, 1)
+      await coordinatorMock.createSubscription()
+      await coordinatorMock.fundSubscription(1, utils.parseEther('1000000'))
+      await coordinatorMock.addKeyHash(keyHash)
+
+      vrfLaunchpeg = await deployRevealCollection()
+      await coordinatorMock.addConsumer(1, vrfLaunchpeg.address)
+      await vrfLaunchpeg.setVRF(coordinatorMock.address, keyHash, 1, 200_000)
+
+      launchpeg = await deployRevealCollection()
+    })
+
+    it('revealNextBatch and tokenURI', async () => {
+      // Each batch adds a range to the jumps built by the reveal and by tokenURI
+      for (let batch = 1; batch <= REVEAL_COLLECTION_SIZE / REVEAL_BATCH_SIZE; batch++) {
+        await measure(`revealNextBatch/${batch}`, launchpeg.revealNextBatch())
+
+        const receipt = await (await vrfLaunchpeg.revealNextBatch()).wait()
+        const requestLog = receipt.logs.find(({ address }: { address: string }) => address === coordinatorMock.address)
+        const { requestId } = coordinatorMock.interface.parseLog(requestLog).args
+        await coordinatorMock.fulfillRandomWords(requestId, vrfLaunchpeg.address)
+
+        const lastRevealedTokenId = batch * REVEAL_BATCH_SIZE - 1
+        measurements[`tokenURI/${batch}`] = (await vrfLaunchpeg.estimateGas.tokenURI(lastRevealedTokenId)).toNumber()
+      }
+    })
+  })
+
+  describe('Budget', () => {
+    it('stays within the budget of the baseline', async () => {
+      if (process.env.UPDATE_GAS_BASELINE) {
+        fs.writeFileSync(BASELINE_PATH, JSON.stringify(measurements, null, 2) + '\n')
+        console.log(`Baseline written to ${BASELINE_PATH}`)
+      } else if (!fs.existsSync(BASELINE_PATH)) {
+        throw new Error(`No gas baseline at ${BASELINE_PATH}, create it with UPDATE_GAS_BASELINE=true yarn benchmark`)
+      }
+      const baseline: GasMeasurements = JSON.parse(fs.readFileSync(BASELINE_PATH, 'utf8'))
+      const budget: GasBudget = JSON.parse(fs.readFileSync(BUDGET_PATH, 'utf8'))
+      const comparisons = compareGasMeasurements(measurements, baseline, budget)
+
+      fs.mkdirSync(REPORT_DIR, { recursive: true })
+      fs.writeFileSync(path.join(REPORT_DIR, 'gas.json'), JSON.stringify(comparisons, null, 2) + '\n')
+      fs.writeFileSync(path.join(REPORT_DIR, 'gas.md'), formatGasReportMarkdown(comparisons))
+      console.log(`Report written to ${REPORT_DIR}`)
+
+      const exceeded = comparisons.filter(({ exceeded }) => exceeded)
+      expect(exceeded.map(({ name, baseline, gas }) => `${name}: ${baseline} -> ${gas}`)).to.be.empty
+    })
+  })
+
+  after(async () => {
+    await network.provider.request({
+      method: 'hardhat_reset',
+      params: [
+        {
+          live: false,
+          saveDeployments: true,
+          tags: ['test', 'local'],
+        },
+      ],
+    })
+  })
+})
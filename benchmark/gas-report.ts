@@ -0,0 +1,74 @@
+// Gas used by each measurement, keyed by `<operation>/<variant>` such as `auctionMint/3`
+export interface GasMeasurements {
+  [name: string]: number
+}
+
+export interface GasBudget {
+  // Increase over the baseline allowed for every measurement, in percent
+  defaultIncreasePercent: number
+  // Overrides by operation, the part of the measurement name before the `/`
+  increasePercent?: { [operation: string]: number }
+}
+
+export interface GasComparison {
+  name: string
+  gas: number
+  // Unset for measurements missing from the baseline
+  baseline?: number
+  changePercent?: number
+  budgetPercent: number
+  exceeded: boolean
+}
+
+/**
+ * Compares measurements with the baseline, measurements missing from the baseline never exceed the budget
+ * @param measurements Gas used by the current code
+ * @param baseline Gas used by the committed baseline
+ * @param budget Allowed increases
+ */
+export const compareGasMeasurements = (
+  measurements: GasMeasurements,
+  baseline: GasMeasurements,
+  budget: GasBudget
+): GasComparison[] => {
+  return Object.entries(measurements).map(([name, gas]) => {
+    const operation = name.split('/')[0]
+    const budgetPercent = budget.increasePercent?.[operation] ?? budget.defaultIncreasePercent
+    if (baseline[name] === undefined) {
+      return { name, gas, budgetPercent, exceeded: false }
+    }
+    const changePercent = ((gas - baseline[name]) * 100) / baseline[name]
+    return {
+      name,
+      gas,
+      baseline: baseline[name],
+      changePercent,
+      budgetPercent,
+      exceeded: changePercent > budgetPercent,
+    }
+  })
+}
+
+/**
+ * Formats the comparison as a markdown table, one row per measurement
+ * @param comparisons Result of `compareGasMeasurements`
+ */
+export const formatGasReportMarkdown = (comparisons: GasComparison[]): string => {
+  const exceeded = comparisons.filter((comparison) => comparison.exceeded)
+  const lines = [
+    '# Gas report',
+    '',
+    exceeded.length > 0
+      ? `${exceeded.length} measurement(s) over budget: ${exceeded.map(({ name }) => name).join(', ')}`
+      : 'Every measurement is within budget',
+    '',
+    '| Measurement | Gas | Baseline | Change | Budget | |',
+    '| --- | ---: | ---: | ---: | ---: | --- |',
+  ]
+  for (const { name, gas, baseline, changePercent, budgetPercent, exceeded } of comparisons) {
+    const change = changePercent === undefined ? 'new' : `${changePercent >= 0 ? '+' : ''}${changePercent.toFixed(2)}%`
+    const status = exceeded ? 'over budget' : ''
+    lines.push(`| ${name} | ${gas} | ${baseline ?? '-'} | ${change} | ${budgetPercent}% | ${status} |`)
+  }
+  return lines.join('\n') + '\n'
+}
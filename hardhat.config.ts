@@ -11,6 +11,9 @@ import 'solidity-coverage'
 import { HardhatUserConfig } from 'hardhat/config'
 import glob from 'glob'
 import path from 'path'
+import { getRpcSettings } from './tasks/networks'
+
+const accounts = process.env.DEPLOY_PRIVATE_KEY ? [process.env.DEPLOY_PRIVATE_KEY] : []
 
 glob.sync('./tasks/**/*.ts').forEach(function (file) {
   require(path.resolve(file))
@@ -34,17 +37,13 @@ const config: HardhatUserConfig = {
   networks: {
     hardhat: {},
     fuji: {
-      url: 'https://api.avax-test.network/ext/bc/C/rpc',
-      gasPrice: 26000000000,
-      chainId: 43113,
-      accounts: process.env.DEPLOY_PRIVATE_KEY ? [process.env.DEPLOY_PRIVATE_KEY] : [],
+      ...getRpcSettings('fuji'),
+      accounts,
       saveDeployments: true,
     },
     avalanche: {
-      url: 'https://api.avax.network/ext/bc/C/rpc',
-      gasPrice: 26000000000,
-      chainId: 43114,
-      accounts: process.env.DEPLOY_PRIVATE_KEY ? [process.env.DEPLOY_PRIVATE_KEY] : [],
+      ...getRpcSettings('avalanche'),
+      accounts,
     },
   },
   contractSizer: {
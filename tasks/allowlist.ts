@@ -0,0 +1,135 @@
+import { parse } from 'csv-parse'
+import { constants, utils } from 'ethers'
+import fs from 'fs'
+
+export interface AllowlistRow {
+  address: string
+  amount: number
+}
+
+// How to handle an address appearing on several rows
+export type DuplicatePolicy = 'merge' | 'last'
+
+export interface AllowlistRecord {
+  // Line of the record in the csv file
+  line: number
+  cells: string[]
+}
+
+export interface AllowlistLintResult {
+  // Resolved allowlist, one entry per address, in the order of first appearance
+  rows: AllowlistRow[]
+  errors: string[]
+  warnings: string[]
+}
+
+/**
+ * Reads an allowlist csv, skipping the header line
+ * @param csvPath Path of the csv file
+ * @returns Raw records, with their line number
+ */
+export const readAllowlistCsv = async (csvPath: string): Promise<AllowlistRecord[]> => {
+  const records: AllowlistRecord[] = []
+  const parser = fs
+    .createReadStream(csvPath)
+    .pipe(parse({ delimiter: ',', from_line: 2, skip_empty_lines: true, relax_column_count: true, info: true }))
+
+  for await (const { record, info } of parser) {
+    records.push({ line: info.lines, cells: record })
+  }
+  return records
+}
+
+/**
+ * Checks every row of an allowlist and resolves duplicated addresses
+ * @param records Raw csv records, as returned by `readAllowlistCsv`
+ * @param duplicatePolicy `merge` adds up the amounts of duplicated addresses, `last` keeps the last row like
+ * `seedAllowlist` would. Duplicates are reported as errors when no policy is given
+ */
+export const lintAllowlist = (records: AllowlistRecord[], duplicatePolicy?: DuplicatePolicy): AllowlistLintResult => {
+  const errors: string[] = []
+  const warnings: string[] = []
+  const amounts = new Map<string, number>()
+  const lines = new Map<string, number[]>()
+
+  records.forEach(({ line, cells }) => {
+    const rawAddress = (cells[0] ?? '').trim()
+    const rawAmount = (cells[1] ?? '').trim()
+
+    let address: string
+    try {
+      address = utils.getAddress(rawAddress)
+    } catch {
+      const reason = utils.isHexString(rawAddress, 20) ? 'wrong checksum for address' : 'invalid address'
+      errors.push(`line ${line}: ${reason} "${rawAddress}"`)
+      return
+    }
+    if (address === constants.AddressZero) {
+      errors.push(`line ${line}: zero address`)
+      return
+    }
+    if (rawAddress !== address) {
+      warnings.push(`line ${line}: ${rawAddress} is not checksummed, expected ${address}`)
+    }
+
+    if (!/^\d+$/.test(rawAmount)) {
+      errors.push(`line ${line}: amount for ${address} must be a non-negative integer, got "${rawAmount}"`)
+      return
+    }
+    const amount = parseInt(rawAmount)
+    if (amount === 0) {
+      warnings.push(`line ${line}: ${address} gets 0 allowlist spot`)
+    }
+
+    const previousLines = lines.get(address)
+    if (previousLines) {
+      previousLines.push(line)
+      amounts.set(address, duplicatePolicy === 'merge' ? amounts.get(address)! + amount : amount)
+    } else {
+      lines.set(address, [line])
+      amounts.set(address, amount)
+    }
+  })
+
+  lines.forEach((duplicateLines, address) => {
+    if (duplicateLines.length < 2) {
+      return
+    }
+    const message = `${address} appears on lines ${duplicateLines.join(', ')}`
+    if (duplicatePolicy === 'merge') {
+      warnings.push(`${message}, amounts merged to ${amounts.get(address)}`)
+    } else if (duplicatePolicy === 'last') {
+      warnings.push(`${message}, keeping the last amount ${amounts.get(address)}`)
+    } else {
+      errors.push(`${message}, use the merge or last duplicate policy`)
+    }
+  })
+
+  const rows = [...amounts.entries()].map(([address, amount]) => ({ address, amount }))
+  return { rows, errors, warnings }
+}
+
+/**
+ * Compares the allowlist spots with the allocation of the collection. Going over it is a warning, as mints fail
+ * once the allocation is minted, while any spot is an error when there is no allocation
+ * @param allowlistSpots Sum of the amounts of the allowlist
+ * @param amountForAllowlist `amountForAllowlist()` of the collection
+ */
+export const lintAllowlistAllocation = (
+  allowlistSpots: number,
+  amountForAllowlist: number
+): Pick<AllowlistLintResult, 'errors' | 'warnings'> => {
+  if (amountForAllowlist === 0) {
+    const errors =
+      allowlistSpots > 0 ? [`${allowlistSpots} spots for an allocation of 0, every allowlist mint would fail`] : []
+    return { errors, warnings: [] }
+  }
+  if (allowlistSpots > amountForAllowlist) {
+    const oversubscription = (((allowlistSpots - amountForAllowlist) * 100) / amountForAllowlist).toFixed(1)
+    const warning =
+      `${allowlistSpots} spots for an allocation of ${amountForAllowlist} (${oversubscription}% oversubscribed), ` +
+      'allowlist mints will fail once the allocation is minted'
+    return { errors: [], warnings: [warning] }
+  }
+  return { errors: [], warnings: [] }
+}
@@ -0,0 +1,134 @@
+import '@nomiclabs/hardhat-ethers'
+import { BigNumber, utils } from 'ethers'
+import fs from 'fs'
+import jsonfile from 'jsonfile'
+import { task, types } from 'hardhat/config'
+import { PHASES } from './lens'
+import { computeRebates } from './rebates'
+import { addTransferToSafeBatch, createSafeBatch } from './safe-batch'
+import { MintRecord, readSaleRecords, SalesStore } from './sales-indexer'
+import { confirm, getLaunchpegContract, getStatePath, resolveContractAddress, toCsv } from './utils'
+
+// Rebates already sent, so that a rerun doesn't pay anyone twice
+interface RebateLedger {
+  clearingPrice: string
+  // Transaction hash by recipient, recorded as soon as the transfer is sent
+  sent: { [address: string]: string }
+}
+
+task('auction-rebates', 'Compute what each dutch auction buyer paid above the clearing price, and optionally pay it')
+  .addParam('contractAddress', 'Address of the collection, or its deployment name such as Launchpeg_<symbol>')
+  .addOptionalParam('clearingPrice', 'Clearing price in AVAX, defaults to lastAuctionPrice')
+  .addOptionalParam(
+    'fromBlock',
+    'Block to start indexing from on the first run, defaults to the creation block of the deployment',
+    undefined,
+    types.int
+  )
+  .addOptionalParam('output', 'Payout csv, defaults to state/<network>/rebates-<address>.csv')
+  .addFlag('send', 'Send the rebates from the signer')
+  .addOptionalParam('exportSafe', 'Write the rebate transfers to this Safe batch file instead of sending them')
+  .addFlag('yes', 'Skip the confirmation')
+  .setAction(
+    async ({ contractAddress: addressOrName, clearingPrice, fromBlock, output, send, exportSafe, yes }, hre) => {
+      const ethers = hre.ethers
+
+      if (send && exportSafe) {
+        throw new Error('--send and --export-safe are exclusive')
+      }
+      const contractAddress = await resolveContractAddress(hre, addressOrName)
+      const { type, launchpeg } = await getLaunchpegContract(hre, contractAddress)
+      if (type !== 'Launchpeg') {
+        throw new Error(`${contractAddress} is a ${type}, it has no dutch auction`)
+      }
+
+      let price: BigNumber
+      if (clearingPrice) {
+        price = utils.parseEther(clearingPrice)
+      } else {
+        // lastAuctionPrice is only the clearing price once the auction is over
+        const currentPhase: number = await launchpeg.currentPhase()
+        if (currentPhase <= PHASES.indexOf('DutchAuction')) {
+          throw new Error(`${contractAddress} is in the ${PHASES[currentPhase]} phase, wait for the auction to end`)
+        }
+        price = await launchpeg.lastAuctionPrice()
+      }
+      console.log(`-- Computing rebates for a clearing price of ${utils.formatEther(price)} AVAX --`)
+
+      const store: SalesStore = await hre.run('index-sales', { contractAddress, fromBlock })
+      const mints = readSaleRecords(store).filter((record): record is MintRecord => record.event === 'Mint')
+      const rebates = computeRebates(mints, price)
+
+      const outputPath = output ?? getStatePath(hre, `rebates-${contractAddress}.csv`)
+      const rows = rebates.map(({ address, mints, quantity, paid, rebate }) => [
+        address,
+        mints,
+        quantity,
+        utils.formatEther(paid),
+        utils.formatEther(rebate),
+        rebate.toString(),
+      ])
+      fs.writeFileSync(outputPath, toCsv(['address', 'mints', 'quantity', 'paid', 'rebate', 'rebateWei'], rows))
+
+      const payouts = rebates.filter(({ rebate }) => rebate.gt(0))
+      const total = payouts.reduce((sum, { rebate }) => sum.add(rebate), BigNumber.from(0))
+      console.log(`${payouts.length} of ${rebates.length} auction buyers to rebate, ${utils.formatEther(total)} AVAX`)
+      console.log(`-- Payouts written to ${outputPath} --`)
+
+      if (exportSafe) {
+        const chainId = await hre.getChainId()
+        createSafeBatch(exportSafe, chainId, `Auction rebates of ${contractAddress}`)
+        payouts.forEach(({ address, rebate }) => addTransferToSafeBatch(exportSafe, chainId, address, rebate))
+        console.log(`-- ${payouts.length} transfers written to ${exportSafe} --`)
+      } else if (send) {
+        // Keyed by the collection only, a rerun with another price or spelling of the address reads the same ledger
+        const ledgerPath = getStatePath(hre, `rebates-${utils.getAddress(contractAddress)}.json`)
+        const ledger: RebateLedger = fs.existsSync(ledgerPath)
+          ? jsonfile.readFileSync(ledgerPath)
+          : { clearingPrice: price.toString(), sent: {} }
+        if (!price.eq(ledger.clearingPrice)) {
+          throw new Error(
+            `${ledgerPath} has rebates sent for a clearing price of ${utils.formatEther(ledger.clearingPrice)} AVAX, ` +
+              `not ${utils.formatEther(price)} AVAX`
+          )
+        }
+        const saveLedger = () => jsonfile.writeFileSync(ledgerPath, ledger, { spaces: 2 })
+
+        // Transfers of a previous run may still be pending, or have been dropped or reverted
+        for (const [address, hash] of Object.entries(ledger.sent)) {
+          const receipt = (await ethers.provider.getTransaction(hash))
+            ? await ethers.provider.waitForTransaction(hash)
+            : undefined
+          if (!receipt || receipt.status !== 1) {
+            console.log(`Rebate to ${address} (${hash}) was ${receipt ? 'reverted' : 'dropped'}, sending it again`)
+            delete ledger.sent[address]
+            saveLedger()
+          }
+        }
+        const pending = payouts.filter(({ address }) => !ledger.sent[address])
+        if (pending.length < payouts.length) {
+          console.log(`${payouts.length - pending.length} rebates already sent, see ${ledgerPath}`)
+        }
+        const pendingTotal = utils.formatEther(pending.reduce((sum, { rebate }) => sum.add(rebate), BigNumber.from(0)))
+        if (
+          pending.length === 0 ||
+          (!yes && !(await confirm(`Send ${pendingTotal} AVAX to ${pending.length} buyers?`)))
+        ) {
+          console.log('-- Nothing sent --')
+          return rebates
+        }
+
+        const [signer] = await ethers.getSigners()
+        for (const { address, rebate } of pending) {
+          const tx = await signer.sendTransaction({ to: address, value: rebate })
+          ledger.sent[address] = tx.hash
+          saveLedger()
+          await tx.wait()
+          console.log(`${utils.formatEther(rebate)} AVAX sent to ${address} (${tx.hash})`)
+        }
+        console.log(`-- ${pending.length} rebates sent --`)
+      }
+
+      return rebates
+    }
+  )
@@ -0,0 +1,167 @@
+import { Contract } from 'ethers'
+
+// TypeScript port of the shuffling of BatchReveal.sol, to compute the metadata of every token without calling
+// `tokenURI` for each of them. The functions mirror the contract ones and must be kept in sync with them
+
+export interface BatchRevealParams {
+  collectionSize: number
+  revealBatchSize: number
+}
+
+// Range of metadata ids taken by revealed batches, [start, end)
+interface Range {
+  start: number
+  end: number
+}
+
+const getRangeLength = ({ collectionSize, revealBatchSize }: BatchRevealParams): number =>
+  (collectionSize / revealBatchSize) * 2
+
+// Mirrors `BatchReveal._addRange`
+const addRange = (
+  params: BatchRevealParams,
+  ranges: Range[],
+  start: number,
+  end: number,
+  lastIndex: number
+): number => {
+  let positionToAssume = lastIndex
+  for (let j = 0; j < lastIndex; j++) {
+    const rangeStart = ranges[j].start
+    const rangeEnd = ranges[j].end
+    if (start < rangeStart && positionToAssume === lastIndex) {
+      positionToAssume = j
+    }
+    if (
+      (start < rangeStart && end > rangeStart) ||
+      (rangeStart <= start && end <= rangeEnd) ||
+      (start < rangeEnd && end > rangeEnd)
+    ) {
+      const length = end - start
+      start = Math.min(start, rangeStart)
+      end = start + length + (rangeEnd - rangeStart)
+      ranges[j] = { start: -1, end: -1 } // Delete
+    }
+  }
+  for (let pos = lastIndex; pos > positionToAssume; pos--) {
+    ranges[pos] = ranges[pos - 1]
+  }
+  ranges[positionToAssume] = { start, end: Math.min(end, params.collectionSize) }
+  lastIndex++
+  if (end > params.collectionSize) {
+    addRange(params, ranges, 0, end - params.collectionSize, lastIndex)
+    lastIndex++
+  }
+  return lastIndex
+}
+
+// Mirrors `BatchReveal._getFreeTokenId`
+const getFreeTokenId = (params: BatchRevealParams, positionsToMoveStart: number, ranges: Range[]): number => {
+  let positionsToMove = positionsToMoveStart
+  let id = 0
+
+  for (let round = 0; round < 2; round++) {
+    for (const { start, end } of ranges) {
+      if (id < start) {
+        const finalId = id + positionsToMove
+        if (finalId < start) {
+          return finalId
+        } else {
+          positionsToMove -= start - id
+          id = end
+        }
+      } else if (id < end) {
+        id = end
+      }
+    }
+    if (id + positionsToMove >= params.collectionSize) {
+      positionsToMove -= params.collectionSize - id
+      id = 0
+    }
+  }
+  return id + positionsToMove
+}
+
+const newRanges = (params: BatchRevealParams): Range[] =>
+  Array.from({ length: getRangeLength(params) }, () => ({ start: 0, end: 0 }))
+
+// Mirrors `BatchReveal._buildJumps`
+const buildJumps = (params: BatchRevealParams, batchToSeed: number[], lastBatch: number): Range[] => {
+  const ranges = newRanges(params)
+  let lastIndex = 0
+  for (let i = 0; i < lastBatch; i++) {
+    const start = getFreeTokenId(params, batchToSeed[i], ranges)
+    lastIndex = addRange(params, ranges, start, start + params.revealBatchSize, lastIndex)
+  }
+  return ranges
+}
+
+/**
+ * Returns the metadata id of a revealed token, like `BatchReveal._getShuffledTokenId`
+ * @param params Collection size and reveal batch size of the collection
+ * @param batchToSeed Seed of each revealed batch, by batch number
+ * @param tokenId Token id, must be in a revealed batch
+ */
+export const getShuffledTokenId = (params: BatchRevealParams, batchToSeed: number[], tokenId: number): number => {
+  const batch = Math.floor(tokenId / params.revealBatchSize)
+  if (batchToSeed[batch] === undefined) {
+    throw new Error(`Batch ${batch} of token ${tokenId} isn't revealed`)
+  }
+  const ranges = buildJumps(params, batchToSeed, batch)
+  return getFreeTokenId(params, (tokenId % params.revealBatchSize) + batchToSeed[batch], ranges)
+}
+
+/**
+ * Returns the metadata id of every revealed token. Batches are processed in order so that the ranges are only
+ * built once, instead of once per token
+ * @param params Collection size and reveal batch size of the collection
+ * @param batchToSeed Seed of each revealed batch, by batch number
+ * @returns Metadata ids, indexed by token id
+ */
+export const getRevealMap = (params: BatchRevealParams, batchToSeed: number[]): number[] => {
+  const { revealBatchSize } = params
+  const map: number[] = []
+  const ranges = newRanges(params)
+  let lastIndex = 0
+  for (let batch = 0; batch < batchToSeed.length; batch++) {
+    const seed = batchToSeed[batch]
+    if (seed === undefined) {
+      throw new Error(`Missing seed for batch ${batch}`)
+    }
+    for (let i = 0; i < revealBatchSize; i++) {
+      map.push(getFreeTokenId(params, i + seed, ranges))
+    }
+    // Same as the next iteration of `_buildJumps`
+    const start = getFreeTokenId(params, seed, ranges)
+    lastIndex = addRange(params, ranges, start, start + revealBatchSize, lastIndex)
+  }
+  return map
+}
+
+/**
+ * Returns the seed of every revealed batch of a collection, from its `Reveal` events. Batches whose event isn't
+ * found, e.g. because the node prunes old logs, are read from `batchToSeed`
+ * @param launchpeg Launchpeg or FlatLaunchpeg
+ * @param fromBlock First block to look for `Reveal` events in
+ * @returns Seeds, by batch number
+ */
+export const getRevealedSeeds = async (launchpeg: Contract, fromBlock: number = 0): Promise<number[]> => {
+  const revealBatchSize = (await launchpeg.revealBatchSize()).toNumber()
+  const lastTokenRevealed = (await launchpeg.lastTokenRevealed()).toNumber()
+  const revealedBatches = lastTokenRevealed / revealBatchSize
+
+  const seeds: number[] = []
+  const events = await launchpeg.queryFilter(launchpeg.filters.Reveal(), fromBlock)
+  for (const { args } of events) {
+    const batchNumber = args?.batchNumber.toNumber()
+    if (batchNumber < revealedBatches) {
+      seeds[batchNumber] = args?.batchSeed.toNumber()
+    }
+  }
+  for (let batch = 0; batch < revealedBatches; batch++) {
+    if (seeds[batch] === undefined) {
+      seeds[batch] = (await launchpeg.batchToSeed(batch)).toNumber()
+    }
+  }
+  return seeds
+}
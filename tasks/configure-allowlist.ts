@@ -1,62 +1,191 @@
 import '@nomiclabs/hardhat-ethers'
-import { parse } from 'csv-parse'
-import { task } from 'hardhat/config'
+import { task, types } from 'hardhat/config'
+import { Contract, utils } from 'ethers'
+import crypto from 'crypto'
 import fs from 'fs'
 import jsonfile from 'jsonfile'
+import { AllowlistRow } from './allowlist'
+import { addToSafeBatch } from './safe-batch'
+import { getStatePath, resolveContractAddress, resolveFromBlock } from './utils'
 
-interface AllowlistRow {
-  address: string
-  amount: number
+interface AllowlistCheckpoint {
+  allowlistHash: string
+  // Rows that are confirmed on chain, address => amount
+  confirmed: { [address: string]: number }
+  transactions: string[]
+}
+
+const MAX_ADDRESS_PER_TX = 200
+const MAX_PARALLEL_CALLS = 50
+// Public RPCs such as Avalanche's limit `eth_getLogs` to 2048 blocks
+const LOG_BLOCK_RANGE = 2048
+
+// Reads `allowlist(address)` for every address, a few calls at a time
+const readAllowlist = async (launchpeg: Contract, addresses: string[]): Promise<Map<string, number>> => {
+  const allowlist = new Map<string, number>()
+  for (let i = 0; i < addresses.length; i += MAX_PARALLEL_CALLS) {
+    const batch = addresses.slice(i, i + MAX_PARALLEL_CALLS)
+    const amounts = await Promise.all(batch.map((address) => launchpeg.allowlist(address)))
+    batch.forEach((address, j) => allowlist.set(address, amounts[j].toNumber()))
+  }
+  return allowlist
+}
+
+/**
+ * Reads the addresses seeded by the previous `seedAllowlist` calls from their calldata. Calls made through another
+ * contract, such as a Safe, can't be decoded and are only reported
+ */
+const readSeededAddresses = async (launchpeg: Contract, fromBlock: number, toBlock: number): Promise<Set<string>> => {
+  const hashes = new Set<string>()
+  for (let from = fromBlock; from <= toBlock; from += LOG_BLOCK_RANGE) {
+    const to = Math.min(from + LOG_BLOCK_RANGE - 1, toBlock)
+    const events = await launchpeg.queryFilter(launchpeg.filters.AllowlistSeeded(), from, to)
+    events.forEach(({ transactionHash }) => hashes.add(transactionHash))
+  }
+
+  const seeded = new Set<string>()
+  const transactionHashes = [...hashes]
+  for (let i = 0; i < transactionHashes.length; i += MAX_PARALLEL_CALLS) {
+    const batch = transactionHashes.slice(i, i + MAX_PARALLEL_CALLS)
+    const transactions = await Promise.all(batch.map((hash) => launchpeg.provider.getTransaction(hash)))
+    transactions.forEach((tx) => {
+      if (tx.to === undefined || utils.getAddress(tx.to) !== utils.getAddress(launchpeg.address)) {
+        console.log(`  ${tx.hash} seeded the allowlist through ${tx.to}, the addresses it seeded are not checked`)
+        return
+      }
+      const { args } = launchpeg.interface.parseTransaction(tx)
+      args._addresses.forEach((address: string) => seeded.add(utils.getAddress(address)))
+    })
+  }
+  return seeded
 }
 
 task('configure-allowlist', 'Configure the Allowlist')
   .addParam('csvPath')
-  .addParam('contractAddress')
+  .addParam('contractAddress', 'Address of the collection, or its deployment name such as Launchpeg_<symbol>')
   .addOptionalParam('outputTx')
-  .setAction(async ({ csvPath, contractAddress, outputTx }, hre) => {
+  .addOptionalParam('duplicates', 'How to handle duplicated addresses: merge or last')
+  .addOptionalParam('exportSafe', 'Append the transactions to this Safe batch file instead of sending them')
+  .addOptionalParam(
+    'fromBlock',
+    'First block to look for previous seedAllowlist calls in, defaults to the creation block of the deployment',
+    undefined,
+    types.int
+  )
+  .setAction(async ({ csvPath, contractAddress: addressOrName, outputTx, duplicates, exportSafe, fromBlock }, hre) => {
     const ethers = hre.ethers
-    const rows: AllowlistRow[] = []
+    const contractAddress = await resolveContractAddress(hre, addressOrName)
 
-    console.log('-- Fetching csv --')
+    // When exporting a batch that also creates the collection, the contract doesn't exist yet
+    const isDeployed = (await ethers.provider.getCode(contractAddress)) !== '0x'
+    if (!isDeployed && !exportSafe) {
+      throw new Error(`No contract deployed at ${contractAddress}`)
+    }
 
-    const parser = fs.createReadStream(csvPath).pipe(parse({ delimiter: ',', from_line: 2 }))
+    const rows: AllowlistRow[] = await hre.run('lint-allowlist', {
+      csvPath,
+      contractAddress: isDeployed ? contractAddress : undefined,
+      duplicates,
+    })
 
-    for await (const record of parser) {
-      rows.push({ address: record[0], amount: parseInt(record[1]) })
-    }
+    const target = new Map<string, number>()
+    rows.forEach((row) => target.set(row.address, row.amount))
 
-    const MAX_ADDRESS_PER_TX = 200
-    const steps = Math.floor(rows.length / MAX_ADDRESS_PER_TX) + (rows.length % MAX_ADDRESS_PER_TX === 0 ? 0 : 1)
+    const launchpeg = await ethers.getContractAt('Launchpeg', contractAddress)
 
-    let allowlistSpots = 0
-    for (let i = 0; i < rows.length; i++) {
-      allowlistSpots += rows[i].amount
+    // Allowlist mints decrease the on-chain values, re-seeding them would give extra spots
+    if (isDeployed && (await launchpeg.amountMintedDuringAllowlist()).gt(0)) {
+      throw new Error('The allowlist mint has already started, on-chain values no longer match the csv')
     }
 
-    console.log(`Giving ${rows.length} addresses ${allowlistSpots} allowlist spots, in ${steps} transaction`)
+    const checkpointPath = getStatePath(hre, `allowlist-${ethers.utils.getAddress(contractAddress)}.json`)
+    const allowlistHash = crypto.createHash('sha256').update(JSON.stringify(rows)).digest('hex')
+    let checkpoint: AllowlistCheckpoint = { allowlistHash, confirmed: {}, transactions: [] }
+    // Addresses seeded before, on chain or by a previous run, that may have to be removed
+    const seeded = new Set<string>()
+    if (!outputTx && !exportSafe && fs.existsSync(checkpointPath)) {
+      const previousCheckpoint: AllowlistCheckpoint = jsonfile.readFileSync(checkpointPath)
+      Object.keys(previousCheckpoint.confirmed).forEach((address) => seeded.add(address))
+      if (previousCheckpoint.allowlistHash === allowlistHash) {
+        checkpoint = previousCheckpoint
+        console.log(`-- Resuming from ${checkpointPath}: ${Object.keys(checkpoint.confirmed).length} rows confirmed --`)
+      } else {
+        console.log(`-- The allowlist changed since ${checkpointPath} was written, starting over --`)
+      }
+    }
 
-    let allowlist: [[string[], number[]]] = [[[], []]]
-    for (let i = 0; i < steps; i++) {
-      allowlist.push([
-        rows
-          .slice(i * MAX_ADDRESS_PER_TX, (i + 1) * MAX_ADDRESS_PER_TX - 1)
-          .map((row) => ethers.utils.getAddress(row.address.trim())),
-        rows.slice(i * MAX_ADDRESS_PER_TX, (i + 1) * MAX_ADDRESS_PER_TX - 1).map((row) => row.amount),
-      ])
+    console.log('-- Reading on-chain allowlist --')
+
+    // Addresses that are no longer in the csv are removed by setting their spots to 0
+    if (isDeployed) {
+      const seededOnChain = await readSeededAddresses(
+        launchpeg,
+        await resolveFromBlock(hre, contractAddress, fromBlock),
+        await ethers.provider.getBlockNumber()
+      )
+      seededOnChain.forEach((address) => seeded.add(address))
+    }
+    const removed = [...seeded].filter((address) => !target.has(address))
+    removed.forEach((address) => target.set(address, 0))
+    if (removed.length > 0) {
+      console.log(`${removed.length} previously seeded addresses are not in the csv anymore, removing them`)
     }
 
+    const toCheck = [...target.keys()].filter((address) => checkpoint.confirmed[address] !== target.get(address))
+    const onChain = isDeployed ? await readAllowlist(launchpeg, toCheck) : new Map<string, number>()
+    const diff = toCheck.filter((address) => onChain.get(address) !== target.get(address))
+    toCheck
+      .filter((address) => onChain.get(address) === target.get(address))
+      .forEach((address) => (checkpoint.confirmed[address] = target.get(address)!))
+
+    const steps = Math.ceil(diff.length / MAX_ADDRESS_PER_TX)
+    const upToDate = target.size - diff.length
+    console.log(`${upToDate} addresses are already up to date, updating ${diff.length} in ${steps} transaction(s)`)
+
     console.log('-- Calling seedAllowlist --')
-    const launchpeg = await ethers.getContractAt('Launchpeg', contractAddress)
 
     for (let i = 0; i < steps; i++) {
+      const addresses = diff.slice(i * MAX_ADDRESS_PER_TX, (i + 1) * MAX_ADDRESS_PER_TX)
+      const amounts = addresses.map((address) => target.get(address)!)
+
       if (outputTx) {
-        await jsonfile.writeFile(`${i}-addresses.txt`, allowlist[i + 1][0])
-        await jsonfile.writeFile(`${i}-amounts.txt`, allowlist[i + 1][1])
+        await jsonfile.writeFile(`${i}-addresses.txt`, addresses)
+        await jsonfile.writeFile(`${i}-amounts.txt`, amounts)
+      } else if (exportSafe) {
+        addToSafeBatch(exportSafe, await hre.getChainId(), launchpeg, 'seedAllowlist', [addresses, amounts])
       } else {
-        const tx = await launchpeg.seedAllowlist(allowlist[i + 1][0], allowlist[i + 1][1])
+        const tx = await launchpeg.seedAllowlist(addresses, amounts)
         await tx.wait()
+
+        addresses.forEach((address, j) => (checkpoint.confirmed[address] = amounts[j]))
+        checkpoint.transactions.push(tx.hash)
+        jsonfile.writeFileSync(checkpointPath, checkpoint, { spaces: 2 })
+        console.log(`Chunk ${i + 1}/${steps} confirmed (${tx.hash})`)
       }
     }
 
+    if (outputTx || exportSafe) {
+      console.log('-- Allowlist transactions written --')
+      return []
+    }
+
+    jsonfile.writeFileSync(checkpointPath, checkpoint, { spaces: 2 })
+
+    console.log('-- Verifying on-chain allowlist --')
+
+    // Every address of the csv, and every removed address
+    const verified = await readAllowlist(launchpeg, [...target.keys()])
+    const mismatches = [...target.keys()].filter((address) => verified.get(address) !== target.get(address))
+    if (mismatches.length > 0) {
+      mismatches.forEach((address) =>
+        console.log(`  - ${address}: expected ${target.get(address)}, got ${verified.get(address)}`)
+      )
+      throw new Error(
+        `On-chain allowlist doesn't match the csv for ${mismatches.length} address(es), delete ${checkpointPath} to re-seed them`
+      )
+    }
+
     console.log('-- Allowlist configured --')
+
+    return checkpoint.transactions
   })
@@ -1,76 +1,154 @@
 import '@nomiclabs/hardhat-ethers'
 import 'hardhat-deploy'
 import 'hardhat-deploy-ethers'
-import { task } from 'hardhat/config'
-import { loadLaunchConfig } from './utils'
+import { task, types } from 'hardhat/config'
+import { assertValidLaunchConfig, FlatLaunchConfig } from './launch-config'
+import { LAUNCH_STEPS, loadLaunchPipeline, runLaunchStep, sendOnce } from './launch-pipeline'
+import { addToSafeBatch, assertSafeOwnsFactory, createSafeBatch, predictNextLaunchpegAddress } from './safe-batch'
+import { printSchedule } from './timestamps'
+import { getCreatedLaunchpegAddress, loadLaunchConfig, saveLaunchpegDeployment } from './utils'
 
 task('deploy-flatlaunchpeg', 'Deploy FlatLaunchpeg contract')
   .addParam('configFilename')
-  .setAction(async ({ configFilename }, hre) => {
+  .addOptionalParam('exportSafe', 'Write the transactions to this Safe batch file instead of sending them')
+  .addOptionalParam('safe', 'Address of the Safe executing the exported batch, it must own the factory')
+  .addOptionalParam('fromStep', `Execute this step and the following ones again: ${LAUNCH_STEPS.join(', ')}`)
+  .addOptionalParam(
+    'now',
+    'Timestamp that "now" refers to in the config, defaults to the latest block',
+    undefined,
+    types.int
+  )
+  .setAction(async ({ configFilename, exportSafe, safe, fromStep, now }, hre): Promise<string> => {
     console.log('-- Deploying FlatLaunchpeg --')
 
     const ethers = hre.ethers
-
     const factoryAddress = (await hre.deployments.get('LaunchpegFactory')).address
-    const factory = await ethers.getContractAt('LaunchpegFactory', factoryAddress)
 
-    const launchConfig = loadLaunchConfig(configFilename)
+    const factory = await ethers.getContractAt('LaunchpegFactory', factoryAddress)
 
-    const creationTx = await factory.createFlatLaunchpeg(
-      launchConfig.name,
-      launchConfig.symbol,
-      launchConfig.projectOwner,
-      launchConfig.royaltyReceiver,
-      launchConfig.maxBatchSize,
-      launchConfig.collectionSize,
-      launchConfig.amountForDevs,
-      launchConfig.amountForAllowlist,
-      [launchConfig.batchRevealSize, launchConfig.batchRevealStart, launchConfig.batchRevealInterval]
-    )
+    const { timestamp } = await ethers.provider.getBlock('latest')
+    const launchConfig = loadLaunchConfig<FlatLaunchConfig>(configFilename, now ?? timestamp)
 
-    await creationTx.wait()
+    printSchedule(launchConfig, timestamp)
+    assertValidLaunchConfig(launchConfig, timestamp)
 
-    const launchpegNumber = await factory.numLaunchpegs(1)
-    const launchpegAddress = await factory.allLaunchpegs(1, launchpegNumber - 1)
+    if (exportSafe && fromStep) {
+      throw new Error('--from-step only applies when sending the transactions, not with --export-safe')
+    }
+    if (exportSafe) {
+      await assertSafeOwnsFactory(factory, safe)
+    }
+    // Exported batches are executed later, there is nothing to resume
+    const pipeline = exportSafe ? undefined : loadLaunchPipeline(hre, configFilename, fromStep)
+    let launchpegAddress = pipeline?.state.launchpeg
+
+    await runLaunchStep(pipeline, 'create', async () => {
+      const creationArgs = [
+        launchConfig.name,
+        launchConfig.symbol,
+        launchConfig.projectOwner,
+        launchConfig.royaltyReceiver,
+        launchConfig.maxBatchSize,
+        launchConfig.collectionSize,
+        launchConfig.amountForDevs,
+        launchConfig.amountForAllowlist,
+        [launchConfig.batchRevealSize, launchConfig.batchRevealStart, launchConfig.batchRevealInterval],
+      ]
+
+      if (exportSafe) {
+        const chainId = await hre.getChainId()
+        createSafeBatch(exportSafe, chainId, `Deploy ${launchConfig.symbol}`)
+        launchpegAddress = await predictNextLaunchpegAddress(factory)
+        addToSafeBatch(exportSafe, chainId, factory, 'createFlatLaunchpeg', creationArgs)
+        console.log('The batch must be executed before any other collection is created by the factory')
+        return []
+      }
+
+      const receipt = await sendOnce(hre, pipeline, 'create', () => factory.createFlatLaunchpeg(...creationArgs))
+      launchpegAddress = getCreatedLaunchpegAddress(factory, receipt)
+      if (pipeline) {
+        pipeline.state.launchpeg = launchpegAddress
+      }
+
+      const deploymentName = await saveLaunchpegDeployment(
+        hre,
+        'FlatLaunchpeg',
+        launchConfig.symbol,
+        launchpegAddress,
+        receipt
+      )
+      console.log(`-- Saved as ${deploymentName} --`)
+      return [receipt.transactionHash]
+    })
+
+    if (!launchpegAddress) {
+      throw new Error('The collection address is unknown, run again with --from-step create')
+    }
+    console.log(`-- Contract ${exportSafe ? 'will be ' : ''}deployed at ${launchpegAddress} --`)
 
-    console.log(`-- Contract deployed at ${launchpegAddress} --`)
+    const launchpeg = await ethers.getContractAt('FlatLaunchpeg', launchpegAddress)
 
-    console.log('-- Initializating phases --')
+    await runLaunchStep(pipeline, 'initialize-phases', async () => {
+      console.log('-- Initializating phases --')
 
-    const launchpeg = await ethers.getContractAt('FlatLaunchpeg', launchpegAddress)
+      const phasesArgs = [
+        launchConfig.allowlistStartTime,
+        launchConfig.publicSaleStartTime,
+        launchConfig.allowlistPrice,
+        launchConfig.salePrice,
+      ]
 
-    const initTx = await launchpeg.initializePhases(
-      launchConfig.allowlistStartTime,
-      launchConfig.publicSaleStartTime,
-      launchConfig.allowlistPrice,
-      launchConfig.salePrice
-    )
+      if (exportSafe) {
+        addToSafeBatch(exportSafe, await hre.getChainId(), launchpeg, 'initializePhases', phasesArgs)
+        return []
+      }
 
-    await initTx.wait()
+      // Sent once: initializePhases reverts when the collection is no longer in the NotStarted phase
+      const receipt = await sendOnce(hre, pipeline, 'initialize-phases', () =>
+        launchpeg.initializePhases(...phasesArgs)
+      )
 
-    console.log('-- Phases initialized --')
+      console.log('-- Phases initialized --')
+      return [receipt.transactionHash]
+    })
 
     if (launchConfig.allowlistLocalPath) {
-      await hre.run('configure-allowlist', {
-        csvPath: launchConfig.allowlistLocalPath,
-        contractAddress: launchpeg.address,
-      })
+      await runLaunchStep(pipeline, 'configure-allowlist', () =>
+        hre.run('configure-allowlist', {
+          csvPath: launchConfig.allowlistLocalPath,
+          contractAddress: launchpeg.address,
+          exportSafe,
+        })
+      )
     }
 
     if (launchConfig.unrevealedURI && launchConfig.baseURI) {
-      await hre.run('set-uris', {
-        contractAddress: launchpeg.address,
-        unrevealedURI: launchConfig.unrevealedURI,
-        baseURI: launchConfig.baseURI,
-      })
+      await runLaunchStep(pipeline, 'set-uris', () =>
+        hre.run('set-uris', {
+          contractAddress: launchpeg.address,
+          unrevealedURI: launchConfig.unrevealedURI,
+          baseURI: launchConfig.baseURI,
+          exportSafe,
+        })
+      )
     }
 
-    if (launchConfig.keyHash && launchConfig.subscriptionId && launchConfig.maxGasLimit) {
-      await hre.run('set-VRF', {
-        contractAddress: launchpeg.address,
-        keyHash: launchConfig.keyHash,
-        subscriptionId: launchConfig.subscriptionId,
-        maxGasLimit: launchConfig.maxGasLimit,
-      })
+    if (launchConfig.subscriptionId) {
+      await runLaunchStep(pipeline, 'set-VRF', () =>
+        hre.run('set-VRF', {
+          contractAddress: launchpeg.address,
+          keyHash: launchConfig.keyHash,
+          subscriptionId: launchConfig.subscriptionId,
+          maxGasLimit: launchConfig.maxGasLimit,
+          exportSafe,
+        })
+      )
     }
+
+    if (pipeline) {
+      console.log(`-- Launch completed, state saved in ${pipeline.statePath} --`)
+    }
+
+    return launchpegAddress
   })
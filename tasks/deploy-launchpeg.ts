@@ -1,12 +1,25 @@
 import '@nomiclabs/hardhat-ethers'
 import 'hardhat-deploy'
 import 'hardhat-deploy-ethers'
-import { task } from 'hardhat/config'
-import { loadLaunchConfig } from './utils'
+import { task, types } from 'hardhat/config'
+import { assertValidLaunchConfig, LaunchConfig } from './launch-config'
+import { LAUNCH_STEPS, loadLaunchPipeline, runLaunchStep, sendOnce } from './launch-pipeline'
+import { addToSafeBatch, assertSafeOwnsFactory, createSafeBatch, predictNextLaunchpegAddress } from './safe-batch'
+import { printSchedule } from './timestamps'
+import { getCreatedLaunchpegAddress, loadLaunchConfig, saveLaunchpegDeployment } from './utils'
 
 task('deploy-launchpeg', 'Deploy Launchpeg contract')
   .addParam('configFilename')
-  .setAction(async ({ configFilename }, hre) => {
+  .addOptionalParam('exportSafe', 'Write the transactions to this Safe batch file instead of sending them')
+  .addOptionalParam('safe', 'Address of the Safe executing the exported batch, it must own the factory')
+  .addOptionalParam('fromStep', `Execute this step and the following ones again: ${LAUNCH_STEPS.join(', ')}`)
+  .addOptionalParam(
+    'now',
+    'Timestamp that "now" refers to in the config, defaults to the latest block',
+    undefined,
+    types.int
+  )
+  .setAction(async ({ configFilename, exportSafe, safe, fromStep, now }, hre): Promise<string> => {
     console.log('-- Deploying Launchpeg --')
 
     const ethers = hre.ethers
@@ -14,66 +27,131 @@ task('deploy-launchpeg', 'Deploy Launchpeg contract')
 
     const factory = await ethers.getContractAt('LaunchpegFactory', factoryAddress)
 
-    const launchConfig = loadLaunchConfig(configFilename)
+    const { timestamp } = await ethers.provider.getBlock('latest')
+    const launchConfig = loadLaunchConfig<LaunchConfig>(configFilename, now ?? timestamp)
 
-    const creationTx = await factory.createLaunchpeg(
-      launchConfig.name,
-      launchConfig.symbol,
-      launchConfig.projectOwner,
-      launchConfig.royaltyReceiver,
-      launchConfig.maxBatchSize,
-      launchConfig.collectionSize,
-      launchConfig.amountForAuction,
-      launchConfig.amountForAllowlist,
-      launchConfig.amountForDevs,
-      [launchConfig.batchRevealSize, launchConfig.batchRevealStart, launchConfig.batchRevealInterval]
-    )
+    printSchedule(launchConfig, timestamp)
+    assertValidLaunchConfig(launchConfig, timestamp)
 
-    await creationTx.wait()
+    if (exportSafe && fromStep) {
+      throw new Error('--from-step only applies when sending the transactions, not with --export-safe')
+    }
+    if (exportSafe) {
+      await assertSafeOwnsFactory(factory, safe)
+    }
+    // Exported batches are executed later, there is nothing to resume
+    const pipeline = exportSafe ? undefined : loadLaunchPipeline(hre, configFilename, fromStep)
+    let launchpegAddress = pipeline?.state.launchpeg
+
+    await runLaunchStep(pipeline, 'create', async () => {
+      const creationArgs = [
+        launchConfig.name,
+        launchConfig.symbol,
+        launchConfig.projectOwner,
+        launchConfig.royaltyReceiver,
+        launchConfig.maxBatchSize,
+        launchConfig.collectionSize,
+        launchConfig.amountForAuction,
+        launchConfig.amountForAllowlist,
+        launchConfig.amountForDevs,
+        [launchConfig.batchRevealSize, launchConfig.batchRevealStart, launchConfig.batchRevealInterval],
+      ]
 
-    const launchpegNumber = await factory.numLaunchpegs(0)
-    const launchpegAddress = await factory.allLaunchpegs(0, launchpegNumber - 1)
+      if (exportSafe) {
+        const chainId = await hre.getChainId()
+        createSafeBatch(exportSafe, chainId, `Deploy ${launchConfig.symbol}`)
+        launchpegAddress = await predictNextLaunchpegAddress(factory)
+        addToSafeBatch(exportSafe, chainId, factory, 'createLaunchpeg', creationArgs)
+        console.log('The batch must be executed before any other collection is created by the factory')
+        return []
+      }
 
-    console.log(`-- Contract deployed at ${launchpegAddress} --`)
+      const receipt = await sendOnce(hre, pipeline, 'create', () => factory.createLaunchpeg(...creationArgs))
+      launchpegAddress = getCreatedLaunchpegAddress(factory, receipt)
+      if (pipeline) {
+        pipeline.state.launchpeg = launchpegAddress
+      }
 
-    console.log('-- Initializating phases --')
+      const deploymentName = await saveLaunchpegDeployment(
+        hre,
+        'Launchpeg',
+        launchConfig.symbol,
+        launchpegAddress,
+        receipt
+      )
+      console.log(`-- Saved as ${deploymentName} --`)
+      return [receipt.transactionHash]
+    })
+
+    if (!launchpegAddress) {
+      throw new Error('The collection address is unknown, run again with --from-step create')
+    }
+    console.log(`-- Contract ${exportSafe ? 'will be ' : ''}deployed at ${launchpegAddress} --`)
 
     const launchpeg = await ethers.getContractAt('Launchpeg', launchpegAddress)
 
-    const initTx = await launchpeg.initializePhases(
-      launchConfig.auctionSaleStartTime,
-      launchConfig.auctionStartPrice,
-      launchConfig.auctionEndPrice,
-      launchConfig.auctionDropInterval,
-      launchConfig.allowlistStartTime,
-      launchConfig.allowlistDiscountPercent,
-      launchConfig.publicSaleStartTime,
-      launchConfig.publicSaleDiscountPercent
-    )
+    await runLaunchStep(pipeline, 'initialize-phases', async () => {
+      console.log('-- Initializating phases --')
 
-    await initTx.wait()
+      const phasesArgs = [
+        launchConfig.auctionSaleStartTime,
+        launchConfig.auctionStartPrice,
+        launchConfig.auctionEndPrice,
+        launchConfig.auctionDropInterval,
+        launchConfig.allowlistStartTime,
+        launchConfig.allowlistDiscountPercent,
+        launchConfig.publicSaleStartTime,
+        launchConfig.publicSaleDiscountPercent,
+      ]
+
+      if (exportSafe) {
+        addToSafeBatch(exportSafe, await hre.getChainId(), launchpeg, 'initializePhases', phasesArgs)
+        return []
+      }
+
+      // Sent once: initializePhases reverts when the collection is no longer in the NotStarted phase
+      const receipt = await sendOnce(hre, pipeline, 'initialize-phases', () =>
+        launchpeg.initializePhases(...phasesArgs)
+      )
+      return [receipt.transactionHash]
+    })
 
     if (launchConfig.allowlistLocalPath) {
-      await hre.run('configure-allowlist', {
-        csvPath: launchConfig.allowlistLocalPath,
-        contractAddress: launchpeg.address,
-      })
+      await runLaunchStep(pipeline, 'configure-allowlist', () =>
+        hre.run('configure-allowlist', {
+          csvPath: launchConfig.allowlistLocalPath,
+          contractAddress: launchpeg.address,
+          exportSafe,
+        })
+      )
     }
 
     if (launchConfig.unrevealedURI && launchConfig.baseURI) {
-      await hre.run('set-uris', {
-        contractAddress: launchpeg.address,
-        unrevealedURI: launchConfig.unrevealedURI,
-        baseURI: launchConfig.baseURI,
-      })
+      await runLaunchStep(pipeline, 'set-uris', () =>
+        hre.run('set-uris', {
+          contractAddress: launchpeg.address,
+          unrevealedURI: launchConfig.unrevealedURI,
+          baseURI: launchConfig.baseURI,
+          exportSafe,
+        })
+      )
     }
 
-    if (launchConfig.keyHash && launchConfig.subscriptionId && launchConfig.maxGasLimit) {
-      await hre.run('set-VRF', {
-        contractAddress: launchpeg.address,
-        keyHash: launchConfig.keyHash,
-        subscriptionId: launchConfig.subscriptionId,
-        maxGasLimit: launchConfig.maxGasLimit,
-      })
+    if (launchConfig.subscriptionId) {
+      await runLaunchStep(pipeline, 'set-VRF', () =>
+        hre.run('set-VRF', {
+          contractAddress: launchpeg.address,
+          keyHash: launchConfig.keyHash,
+          subscriptionId: launchConfig.subscriptionId,
+          maxGasLimit: launchConfig.maxGasLimit,
+          exportSafe,
+        })
+      )
     }
+
+    if (pipeline) {
+      console.log(`-- Launch completed, state saved in ${pipeline.statePath} --`)
+    }
+
+    return launchpegAddress
   })
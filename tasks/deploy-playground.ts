@@ -1,21 +1,174 @@
 import '@nomiclabs/hardhat-ethers'
 import 'hardhat-deploy'
 import 'hardhat-deploy-ethers'
+import { BigNumber, Contract } from 'ethers'
+import jsonfile from 'jsonfile'
 import { task } from 'hardhat/config'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import { isLaunchConfig } from './launch-config'
+import { LOCAL_NETWORKS } from './networks'
+import {
+  getMintTarget,
+  getPhaseOffset,
+  getSaleStartTime,
+  hasRelativeSchedule,
+  loadPlaygroundScenario,
+  PlaygroundManifest,
+} from './playground'
+import { formatDuration, formatTimestamp } from './timestamps'
+import { getStatePath, loadLaunchConfig } from './utils'
 
-task('deploy-playground', 'Deploy differents launchpeg contracts for testing').setAction(async ({}, hre) => {
-  console.log('-- Deploying all contracts --')
-
-  // Launchpegs
-  await hre.run('deploy-launchpeg', { configFilename: 'playground-deployments/launchpeg-not-started.json' })
-  await hre.run('deploy-launchpeg', { configFilename: 'playground-deployments/launchpeg-auction.json' })
-  await hre.run('deploy-launchpeg', { configFilename: 'playground-deployments/launchpeg-allowlist.json' })
-  await hre.run('deploy-launchpeg', { configFilename: 'playground-deployments/launchpeg-public.json' })
-  await hre.run('deploy-launchpeg', { configFilename: 'playground-deployments/launchpeg-sold-out.json' })
-
-  // FlatLaunchpegs
-  await hre.run('deploy-flatlaunchpeg', { configFilename: 'playground-deployments/flatlaunchpeg-not-started.json' })
-  await hre.run('deploy-flatlaunchpeg', { configFilename: 'playground-deployments/flatlaunchpeg-allowlist.json' })
-  await hre.run('deploy-flatlaunchpeg', { configFilename: 'playground-deployments/flatlaunchpeg-public.json' })
-  await hre.run('deploy-flatlaunchpeg', { configFilename: 'playground-deployments/flatlaunchpeg-sold-out.json' })
-})
+// Phases returned by `currentPhase()`, in the order of the enum
+const CONTRACT_PHASES = ['NotStarted', 'DutchAuction', 'Allowlist', 'PublicSale']
+
+// Time left to send the deployment transactions before the first sale starts
+const DEPLOYMENT_DURATION = 600
+
+const setBalance = async (hre: HardhatRuntimeEnvironment, address: string, balance: BigNumber) => {
+  await hre.network.provider.request({
+    method: 'hardhat_setBalance',
+    params: [address, hre.ethers.utils.hexStripZeros(balance.toHexString())],
+  })
+}
+
+/**
+ * Mints until the supply reaches `target`: the dev reserve first by impersonating the project owner, then public
+ * sale mints from new wallets
+ */
+const mintUpTo = async (hre: HardhatRuntimeEnvironment, launchpeg: Contract, target: number) => {
+  const ethers = hre.ethers
+
+  const maxBatchSize = (await launchpeg.maxBatchSize()).toNumber()
+  const devsLeft = (await launchpeg.amountForDevs()).sub(await launchpeg.amountMintedByDevs()).toNumber()
+  const missing = target - (await launchpeg.totalSupply()).toNumber()
+  // Dev mints are done by multiples of maxBatchSize
+  const devQuantity = Math.floor(Math.min(devsLeft, missing) / maxBatchSize) * maxBatchSize
+  if (devQuantity > 0) {
+    const projectOwner = await launchpeg.projectOwner()
+    await hre.network.provider.request({ method: 'hardhat_impersonateAccount', params: [projectOwner] })
+    await setBalance(hre, projectOwner, ethers.utils.parseEther('100'))
+    const tx = await launchpeg.connect(await ethers.getSigner(projectOwner)).devMint(devQuantity)
+    await tx.wait()
+    await hre.network.provider.request({ method: 'hardhat_stopImpersonatingAccount', params: [projectOwner] })
+    console.log(`Dev minted ${devQuantity}`)
+  }
+
+  const publicSaleQuantity = target - (await launchpeg.totalSupply()).toNumber()
+  if (publicSaleQuantity <= 0) {
+    return
+  }
+  if (CONTRACT_PHASES[await launchpeg.currentPhase()] !== 'PublicSale') {
+    throw new Error(`${publicSaleQuantity} tokens of ${launchpeg.address} can only be minted during the public sale`)
+  }
+
+  const price: BigNumber = launchpeg.interface.functions['salePrice()']
+    ? await launchpeg.salePrice()
+    : await launchpeg.getPublicSalePrice()
+  const maxPerAddress = (await launchpeg.maxPerAddressDuringMint()).toNumber()
+  let remaining = publicSaleQuantity
+  let wallets = 0
+  while (remaining > 0) {
+    const quantity = Math.min(remaining, maxPerAddress)
+    const value = price.mul(quantity)
+    const wallet = ethers.Wallet.createRandom().connect(ethers.provider)
+    await setBalance(hre, wallet.address, value.add(ethers.utils.parseEther('1')))
+    const tx = await launchpeg.connect(wallet).publicSaleMint(quantity, { value })
+    await tx.wait()
+    remaining -= quantity
+    wallets++
+  }
+  console.log(`Minted ${publicSaleQuantity} from ${wallets} wallet(s) during the public sale`)
+}
+
+task('deploy-playground', 'Deploy collections in the phases listed by a scenario, for testing')
+  .addOptionalParam(
+    'scenarioFilename',
+    'Scenario file path, relative to tasks/config',
+    'playground-scenarios/default.json'
+  )
+  .addOptionalParam('manifest', 'Output file, defaults to state/<network>/playground.json')
+  .addFlag('noTimeTravel', 'Keep the clock of a local network, collections reach their phase at the printed time')
+  .setAction(async ({ scenarioFilename, manifest: manifestPath, noTimeTravel }, hre): Promise<PlaygroundManifest> => {
+    const ethers = hre.ethers
+
+    const scenario = loadPlaygroundScenario(scenarioFilename)
+    const timeTravel = LOCAL_NETWORKS.includes(hre.network.name) && !noTimeTravel
+    const { timestamp: now } = await ethers.provider.getBlock('latest')
+
+    const collections = scenario.collections.map((collection) => {
+      if (!hasRelativeSchedule(collection.configFilename, now)) {
+        throw new Error(`${collection.configFilename} has fixed start times, they can't be moved to the scenario`)
+      }
+      const launchConfig = loadLaunchConfig(collection.configFilename, now)
+      const mintTarget = getMintTarget(launchConfig, collection)
+      if (mintTarget > 0 && !timeTravel) {
+        throw new Error(`${collection.name} needs mints, which are only done on a local network with time travel`)
+      }
+      return { ...collection, launchConfig, mintTarget, offset: getPhaseOffset(launchConfig, collection.phase, now) }
+    })
+
+    // Every collection is in its phase at `phasesAt`, the earliest sale starts once all of them are deployed
+    const phasesAt = now + DEPLOYMENT_DURATION + Math.max(...collections.map(({ offset }) => offset))
+    console.log(`-- Deploying ${collections.length} collections, in their phase at ${formatTimestamp(phasesAt)} --`)
+
+    const manifest: PlaygroundManifest = {
+      network: hre.network.name,
+      chainId: await hre.getChainId(),
+      scenario: scenarioFilename,
+      phasesAt,
+      collections: {},
+    }
+
+    for (const { name, configFilename, phase, revealedBatches, launchConfig, offset } of collections) {
+      console.log(`-- Deploying ${name} (${phase}) --`)
+      const contract = isLaunchConfig(launchConfig) ? 'Launchpeg' : 'FlatLaunchpeg'
+      const address: string = await hre.run(contract === 'Launchpeg' ? 'deploy-launchpeg' : 'deploy-flatlaunchpeg', {
+        configFilename,
+        // Resolves the config so that the sale starts `offset` seconds before `phasesAt`
+        now: now + phasesAt - offset - getSaleStartTime(launchConfig),
+        // A previous playground may have been deployed on a chain that has been reset since
+        fromStep: 'create',
+      })
+      manifest.collections[name] = { address, contract, phase, revealedBatches: revealedBatches ?? 0, configFilename }
+    }
+
+    if (timeTravel) {
+      const { timestamp } = await ethers.provider.getBlock('latest')
+      if (timestamp < phasesAt) {
+        console.log(`-- Fast-forwarding ${formatDuration(phasesAt - timestamp)} --`)
+        await hre.network.provider.request({ method: 'evm_increaseTime', params: [phasesAt - timestamp] })
+        await hre.network.provider.request({ method: 'evm_mine', params: [] })
+      }
+    } else {
+      console.log(`Collections reach their phase at ${formatTimestamp(phasesAt)}, in ${formatDuration(phasesAt - now)}`)
+    }
+
+    for (const { name, phase, revealedBatches, mintTarget } of collections) {
+      const { address, contract } = manifest.collections[name]
+      const launchpeg = await ethers.getContractAt(contract, address)
+
+      if (mintTarget > 0) {
+        console.log(`-- Minting ${mintTarget} tokens of ${name} --`)
+        await mintUpTo(hre, launchpeg, mintTarget)
+      }
+      if (revealedBatches) {
+        for (let i = 0; i < revealedBatches; i++) {
+          const tx = await launchpeg.revealNextBatch()
+          await tx.wait()
+        }
+        console.log(`Revealed ${revealedBatches} batch(es) of ${name}`)
+      }
+
+      const currentPhase = CONTRACT_PHASES[await launchpeg.currentPhase()]
+      const expectedPhase = phase === 'SoldOut' ? 'PublicSale' : phase
+      if (timeTravel && currentPhase !== expectedPhase) {
+        console.log(`Warning: ${name} is in ${currentPhase} instead of ${expectedPhase}`)
+      }
+    }
+
+    const outputPath = manifestPath ?? getStatePath(hre, 'playground.json')
+    jsonfile.writeFileSync(outputPath, manifest, { spaces: 2 })
+    console.log(`-- Manifest saved in ${outputPath} --`)
+
+    return manifest
+  })
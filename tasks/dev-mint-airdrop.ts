@@ -0,0 +1,149 @@
+import '@nomiclabs/hardhat-ethers'
+import { BigNumber, constants, Contract, providers, utils } from 'ethers'
+import crypto from 'crypto'
+import fs from 'fs'
+import jsonfile from 'jsonfile'
+import { task } from 'hardhat/config'
+import { lintAllowlist, readAllowlistCsv } from './allowlist'
+import { getStatePath, resolveContractAddress, toCsv } from './utils'
+
+interface AirdropState {
+  csvHash: string
+  // Set as soon as devMint is sent, so that a crash can't lead to a second mint
+  mintTransaction?: string
+  tokenIds: number[]
+  // Token id => transfer transaction
+  transfers: { [tokenId: string]: string }
+}
+
+// Returns the ids minted to `to` in a transaction, from its Transfer events
+const getMintedTokenIds = (launchpeg: Contract, receipt: providers.TransactionReceipt, to: string): number[] => {
+  const transferTopic = launchpeg.interface.getEventTopic('Transfer')
+  return receipt.logs
+    .filter(
+      ({ address, topics }) =>
+        utils.getAddress(address) === utils.getAddress(launchpeg.address) && topics[0] === transferTopic
+    )
+    .map((log) => launchpeg.interface.parseLog(log).args)
+    .filter(
+      ({ from, to: recipient }) =>
+        from === constants.AddressZero && utils.getAddress(recipient) === utils.getAddress(to)
+    )
+    .map(({ tokenId }) => (tokenId as BigNumber).toNumber())
+}
+
+task('dev-mint-airdrop', 'Mint the tokens reserved for the devs and send them to the recipients of a csv')
+  .addParam('contractAddress', 'Address of the collection, or its deployment name such as Launchpeg_<symbol>')
+  .addParam('csvPath', 'Csv of address,quantity rows, with a header line')
+  .addOptionalParam('reportPath', 'Where to write the report, defaults to the state directory')
+  .setAction(async ({ contractAddress: addressOrName, csvPath, reportPath }, hre) => {
+    const ethers = hre.ethers
+    const contractAddress = await resolveContractAddress(hre, addressOrName)
+    const launchpeg = await ethers.getContractAt('Launchpeg', contractAddress)
+
+    const projectOwner: string = await launchpeg.projectOwner()
+    const [signer] = await ethers.getSigners()
+    if (signer.address !== projectOwner) {
+      throw new Error(`devMint can only be called by the project owner ${projectOwner}, not ${signer.address}`)
+    }
+
+    console.log('-- Reading recipients --')
+
+    // Same format as the allowlist, quantities of duplicated recipients are added up
+    const { rows, errors, warnings } = lintAllowlist(await readAllowlistCsv(csvPath), 'merge')
+    warnings.forEach((warning) => console.log(`  warning: ${warning}`))
+    errors.forEach((error) => console.log(`  error: ${error}`))
+    if (errors.length > 0) {
+      throw new Error(`Recipients csv has ${errors.length} error(s)`)
+    }
+    const recipients = rows.filter(({ amount }) => amount > 0)
+    const total = recipients.reduce((sum, { amount }) => sum + amount, 0)
+
+    const csvHash = crypto.createHash('sha256').update(JSON.stringify(recipients)).digest('hex')
+    const statePath = getStatePath(hre, `airdrop-${contractAddress}-${csvHash.slice(0, 8)}.json`)
+    let state: AirdropState = { csvHash, tokenIds: [], transfers: {} }
+    if (fs.existsSync(statePath)) {
+      state = jsonfile.readFileSync(statePath)
+      console.log(`-- Resuming from ${statePath} --`)
+    }
+    const saveState = () => jsonfile.writeFileSync(statePath, state, { spaces: 2 })
+
+    if (state.tokenIds.length === 0) {
+      let receipt: providers.TransactionReceipt
+      if (state.mintTransaction && (await ethers.provider.getTransaction(state.mintTransaction))) {
+        console.log(`-- Waiting for ${state.mintTransaction}, sent by a previous run --`)
+        receipt = await ethers.provider.waitForTransaction(state.mintTransaction)
+      } else {
+        const maxBatchSize = (await launchpeg.maxBatchSize()).toNumber()
+        const amountForDevs = (await launchpeg.amountForDevs()).toNumber()
+        const amountMintedByDevs = (await launchpeg.amountMintedByDevs()).toNumber()
+
+        // devMint only accepts multiples of maxBatchSize, the extra tokens stay with the project owner
+        const quantity = Math.ceil(total / maxBatchSize) * maxBatchSize
+        const available = amountForDevs - amountMintedByDevs
+        if (quantity > available) {
+          const needed = `${total} tokens to airdrop need a mint of ${quantity} (multiple of ${maxBatchSize})`
+          throw new Error(`${needed}, only ${available} left for the devs`)
+        }
+
+        console.log(`-- Minting ${quantity} tokens for ${recipients.length} recipient(s) --`)
+
+        const tx = await launchpeg.devMint(quantity)
+        state.mintTransaction = tx.hash
+        saveState()
+        receipt = await tx.wait()
+      }
+      if (receipt.status !== 1) {
+        throw new Error(`devMint transaction ${receipt.transactionHash} reverted`)
+      }
+
+      state.tokenIds = getMintedTokenIds(launchpeg, receipt, projectOwner).sort((a, b) => a - b)
+      saveState()
+    }
+
+    if (state.tokenIds.length < total) {
+      throw new Error(`${state.tokenIds.length} tokens were minted for ${total} to airdrop, delete ${statePath}`)
+    }
+
+    // Token ids are handed out in the order of the csv
+    let next = 0
+    const assignments = recipients.map(({ address, amount }) => {
+      const tokenIds = state.tokenIds.slice(next, next + amount)
+      next += amount
+      return { address, tokenIds }
+    })
+
+    console.log('-- Sending tokens --')
+
+    for (const { address, tokenIds } of assignments) {
+      for (const tokenId of tokenIds) {
+        if (state.transfers[tokenId] || address === projectOwner) {
+          continue
+        }
+        // Sent by a previous run that crashed before saving it
+        if ((await launchpeg.ownerOf(tokenId)) === address) {
+          state.transfers[tokenId] = 'unknown'
+          saveState()
+          continue
+        }
+
+        const tx = await launchpeg['safeTransferFrom(address,address,uint256)'](projectOwner, address, tokenId)
+        await tx.wait()
+        state.transfers[tokenId] = tx.hash
+        saveState()
+        console.log(`#${tokenId} sent to ${address} (${tx.hash})`)
+      }
+    }
+
+    const report = reportPath ?? getStatePath(hre, `airdrop-${contractAddress}-${csvHash.slice(0, 8)}-report.csv`)
+    const reportRows = assignments.map(({ address, tokenIds }) => [address, tokenIds.length, tokenIds.join(' ')])
+    const leftover = state.tokenIds.slice(total)
+    if (leftover.length > 0) {
+      reportRows.push([projectOwner, leftover.length, leftover.join(' ')])
+      console.log(`${leftover.length} extra token(s) kept by the project owner: ${leftover.join(', ')}`)
+    }
+    fs.writeFileSync(report, toCsv(['address', 'quantity', 'tokenIds'], reportRows))
+
+    console.log(`-- Airdrop completed, report written to ${report} --`)
+    return assignments
+  })
@@ -0,0 +1,69 @@
+import { constants, Contract } from 'ethers'
+import { TransferRecord } from './sales-indexer'
+
+export interface Holder {
+  address: string
+  tokenIds: number[]
+}
+
+/**
+ * Returns the tokens whose ownership has to be read to know the owner of every token. ERC721A only stores the
+ * owner of the first token of each mint, and of transferred tokens and the ones right after them. The owner of any
+ * other token is the one of the closest stored token before it, so reading these tokens is enough
+ * @param transfers Every `Transfer` event of the collection up to the snapshot block, mints included
+ * @param totalSupply Total supply at the snapshot block
+ */
+export const getOwnershipReadPoints = (transfers: TransferRecord[], totalSupply: number): number[] => {
+  const mintTransactions: string[] = []
+  const points = new Set<number>()
+  for (const { from, tokenId, transactionHash } of transfers) {
+    if (from === constants.AddressZero) {
+      mintTransactions[tokenId] = transactionHash
+    } else {
+      points.add(tokenId)
+      points.add(tokenId + 1)
+    }
+  }
+
+  for (let tokenId = 0; tokenId < totalSupply; tokenId++) {
+    if (mintTransactions[tokenId] === undefined) {
+      throw new Error(`No mint event for token ${tokenId}, the events must be indexed from the collection creation`)
+    }
+    // Tokens minted by the same transaction have the same owner, even when minted in several batches
+    if (tokenId === 0 || mintTransactions[tokenId] !== mintTransactions[tokenId - 1]) {
+      points.add(tokenId)
+    }
+  }
+
+  return [...points].filter((tokenId) => tokenId < totalSupply).sort((a, b) => a - b)
+}
+
+/**
+ * Returns the holders of a collection at a given block, with `getOwnershipData` called once per ownership change
+ * instead of `ownerOf` once per token
+ * @param launchpeg Launchpeg or FlatLaunchpeg
+ * @param transfers Every `Transfer` event of the collection up to the snapshot block, mints included
+ * @param blockNumber Snapshot block
+ * @returns Holders and their tokens, ordered by first token id
+ */
+export const getHolders = async (
+  launchpeg: Contract,
+  transfers: TransferRecord[],
+  blockNumber: number
+): Promise<Holder[]> => {
+  const totalSupply = (await launchpeg.totalSupply({ blockTag: blockNumber })).toNumber()
+  const points = getOwnershipReadPoints(transfers, totalSupply)
+
+  const holders = new Map<string, Holder>()
+  for (let i = 0; i < points.length; i++) {
+    const { addr } = await launchpeg.getOwnershipData(points[i], { blockTag: blockNumber })
+    const end = i + 1 < points.length ? points[i + 1] : totalSupply
+    if (!holders.has(addr)) {
+      holders.set(addr, { address: addr, tokenIds: [] })
+    }
+    for (let tokenId = points[i]; tokenId < end; tokenId++) {
+      holders.get(addr)!.tokenIds.push(tokenId)
+    }
+  }
+  return [...holders.values()]
+}
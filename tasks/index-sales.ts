@@ -0,0 +1,39 @@
+import '@nomiclabs/hardhat-ethers'
+import { task, types } from 'hardhat/config'
+import { getSalesStore, indexSales, loadCheckpoint } from './sales-indexer'
+import { getLaunchpegContract, getStatePath, resolveContractAddress, resolveFromBlock } from './utils'
+
+task('index-sales', 'Index the sale events of a collection in a local store')
+  .addParam('contractAddress', 'Address of the collection, or its deployment name such as Launchpeg_<symbol>')
+  .addOptionalParam('store', 'Directory of the store, defaults to state/<network>/sales-<address>')
+  .addOptionalParam(
+    'fromBlock',
+    'Block to start from on the first run, defaults to the creation block of the deployment',
+    undefined,
+    types.int
+  )
+  .addOptionalParam('toBlock', 'Last block to index, defaults to the latest one', undefined, types.int)
+  .addOptionalParam('blockRange', 'Number of blocks fetched per call', 2048, types.int)
+  .setAction(async ({ contractAddress: addressOrName, store: storeDir, fromBlock, toBlock, blockRange }, hre) => {
+    if (blockRange < 1) {
+      throw new Error('--block-range must be greater than 0')
+    }
+    const contractAddress = await resolveContractAddress(hre, addressOrName)
+    const { type, launchpeg } = await getLaunchpegContract(hre, contractAddress)
+
+    const store = getSalesStore(storeDir ?? getStatePath(hre, `sales-${contractAddress}`))
+    const checkpoint = loadCheckpoint(store)
+    const latestBlock = toBlock ?? (await hre.ethers.provider.getBlockNumber())
+    // The checkpoint holds the block of the first run, --from-block is only needed without it
+    const startBlock = checkpoint ? checkpoint.fromBlock : await resolveFromBlock(hre, contractAddress, fromBlock)
+
+    console.log(
+      `-- Indexing ${type} ${contractAddress} from block ${checkpoint ? checkpoint.lastBlock + 1 : startBlock} --`
+    )
+
+    const added = await indexSales(launchpeg, type, store, { fromBlock: startBlock, toBlock: latestBlock, blockRange })
+
+    console.log(`-- ${added} records added to ${store.recordsPath}, indexed up to block ${latestBlock} --`)
+
+    return store
+  })
@@ -0,0 +1,248 @@
+import { BigNumber, utils } from 'ethers'
+
+// Values are written as strings in the JSON config files, as they may not fit in a JS number
+export type ConfigNumber = string | number
+
+export interface BaseLaunchConfig {
+  name: string
+  symbol: string
+  projectOwner: string
+  royaltyReceiver: string
+  maxBatchSize: ConfigNumber
+  collectionSize: ConfigNumber
+  amountForDevs: ConfigNumber
+  amountForAllowlist: ConfigNumber
+  batchRevealSize: ConfigNumber
+  batchRevealStart: ConfigNumber
+  batchRevealInterval: ConfigNumber
+  allowlistStartTime: ConfigNumber
+  publicSaleStartTime: ConfigNumber
+  revealStartTime?: ConfigNumber
+  revealInterval?: ConfigNumber
+  allowlistLocalPath?: string
+  unrevealedURI?: string
+  baseURI?: string
+  keyHash?: string
+  subscriptionId?: ConfigNumber
+  maxGasLimit?: ConfigNumber
+}
+
+export interface LaunchConfig extends BaseLaunchConfig {
+  amountForAuction: ConfigNumber
+  auctionSaleStartTime: ConfigNumber
+  auctionStartPrice: ConfigNumber
+  auctionEndPrice: ConfigNumber
+  auctionDropInterval: ConfigNumber
+  allowlistDiscountPercent: ConfigNumber
+  publicSaleDiscountPercent: ConfigNumber
+}
+
+export interface FlatLaunchConfig extends BaseLaunchConfig {
+  allowlistPrice: ConfigNumber
+  salePrice: ConfigNumber
+}
+
+export const isLaunchConfig = (launchConfig: BaseLaunchConfig): launchConfig is LaunchConfig => {
+  return (launchConfig as LaunchConfig).auctionSaleStartTime !== undefined
+}
+
+// Mirrors the constants hard-coded in BaseLaunchpeg and BatchReveal
+const BASIS_POINT_PRECISION = 10_000
+const MAX_REVEAL_START_DELAY = 8_640_000
+const MAX_REVEAL_INTERVAL = 864_000
+const MIN_CALLBACK_GAS_LIMIT = 20_000
+
+/**
+ * Reproduces offline the checks done on chain by `createLaunchpeg`, `createFlatLaunchpeg`
+ * and `initializePhases`, so that a bad config is caught before any transaction is sent.
+ * @param launchConfig The loaded config, timestamps already converted
+ * @param now The current block timestamp, used for the start time and reveal checks
+ * @returns The list of every violation found, empty if the config is valid
+ */
+export const validateLaunchConfig = (launchConfig: BaseLaunchConfig, now: number): string[] => {
+  const errors: string[] = []
+  const config = launchConfig as unknown as Record<string, unknown>
+
+  const toBigNumber = (field: string): BigNumber | undefined => {
+    const value = config[field]
+    if (value === undefined || value === null || value === '') {
+      errors.push(`${field} is missing`)
+      return undefined
+    }
+    if (!/^\d+$/.test(String(value))) {
+      errors.push(`${field} must be a non-negative integer, got "${value}"`)
+      return undefined
+    }
+    return BigNumber.from(String(value))
+  }
+
+  const check = (condition: boolean, message: string) => {
+    if (!condition) {
+      errors.push(message)
+    }
+  }
+
+  for (const field of ['name', 'symbol']) {
+    check(typeof config[field] === 'string' && config[field] !== '', `${field} is missing`)
+  }
+
+  for (const field of ['projectOwner', 'royaltyReceiver']) {
+    const address = config[field]
+    if (typeof address !== 'string' || !utils.isAddress(address)) {
+      errors.push(`${field} is not a valid address, got "${address}"`)
+    } else {
+      check(BigNumber.from(address).gt(0), `${field} can't be the zero address`)
+    }
+  }
+
+  const maxBatchSize = toBigNumber('maxBatchSize')
+  const collectionSize = toBigNumber('collectionSize')
+  const amountForDevs = toBigNumber('amountForDevs')
+  const amountForAllowlist = toBigNumber('amountForAllowlist')
+  const batchRevealSize = toBigNumber('batchRevealSize')
+  const batchRevealStart = toBigNumber('batchRevealStart')
+  const batchRevealInterval = toBigNumber('batchRevealInterval')
+  const allowlistStartTime = toBigNumber('allowlistStartTime')
+  const publicSaleStartTime = toBigNumber('publicSaleStartTime')
+
+  if (collectionSize) {
+    if (amountForDevs && amountForAllowlist) {
+      const total = amountForDevs.add(amountForAllowlist)
+      check(
+        total.lte(collectionSize),
+        `amountForDevs + amountForAllowlist (${total}) exceeds collectionSize (${collectionSize})`
+      )
+    }
+    if (maxBatchSize) {
+      check(maxBatchSize.gt(0), 'maxBatchSize must be greater than 0')
+      check(
+        maxBatchSize.lte(collectionSize),
+        `maxBatchSize (${maxBatchSize}) exceeds collectionSize (${collectionSize})`
+      )
+    }
+    if (batchRevealSize) {
+      check(
+        batchRevealSize.gt(0) && batchRevealSize.lte(collectionSize) && collectionSize.mod(batchRevealSize).eq(0),
+        `batchRevealSize (${batchRevealSize}) must divide collectionSize (${collectionSize})`
+      )
+    }
+  }
+
+  if (batchRevealStart) {
+    check(
+      batchRevealStart.lte(now + MAX_REVEAL_START_DELAY),
+      `batchRevealStart (${batchRevealStart}) is more than 100 days in the future`
+    )
+  }
+  if (batchRevealInterval) {
+    check(
+      batchRevealInterval.lte(MAX_REVEAL_INTERVAL),
+      `batchRevealInterval (${batchRevealInterval}) is longer than 10 days`
+    )
+  }
+
+  if (allowlistStartTime && publicSaleStartTime) {
+    check(
+      publicSaleStartTime.gte(allowlistStartTime),
+      `publicSaleStartTime (${publicSaleStartTime}) is before allowlistStartTime (${allowlistStartTime})`
+    )
+  }
+
+  if (isLaunchConfig(launchConfig)) {
+    const amountForAuction = toBigNumber('amountForAuction')
+    const auctionSaleStartTime = toBigNumber('auctionSaleStartTime')
+    const auctionStartPrice = toBigNumber('auctionStartPrice')
+    const auctionEndPrice = toBigNumber('auctionEndPrice')
+    const auctionDropInterval = toBigNumber('auctionDropInterval')
+    const allowlistDiscountPercent = toBigNumber('allowlistDiscountPercent')
+    const publicSaleDiscountPercent = toBigNumber('publicSaleDiscountPercent')
+
+    if (collectionSize && amountForAuction && amountForAllowlist && amountForDevs) {
+      const total = amountForAuction.add(amountForAllowlist).add(amountForDevs)
+      check(
+        total.lte(collectionSize),
+        `amountForAuction + amountForAllowlist + amountForDevs (${total}) exceeds collectionSize (${collectionSize})`
+      )
+    }
+    if (auctionSaleStartTime) {
+      check(auctionSaleStartTime.gte(now), `auctionSaleStartTime (${auctionSaleStartTime}) is in the past`)
+    }
+    if (auctionStartPrice && auctionEndPrice) {
+      check(
+        auctionEndPrice.lt(auctionStartPrice),
+        `auctionEndPrice (${auctionEndPrice}) must be lower than auctionStartPrice (${auctionStartPrice})`
+      )
+    }
+    if (auctionSaleStartTime && allowlistStartTime) {
+      if (allowlistStartTime.gt(auctionSaleStartTime)) {
+        if (auctionDropInterval) {
+          const auctionSaleDuration = allowlistStartTime.sub(auctionSaleStartTime)
+          check(
+            auctionDropInterval.gt(0) && auctionDropInterval.lte(auctionSaleDuration.div(4)),
+            `auctionDropInterval (${auctionDropInterval}) must be between 1 and a quarter of the auction duration (${auctionSaleDuration})`
+          )
+        }
+      } else {
+        errors.push(
+          `allowlistStartTime (${allowlistStartTime}) must be after auctionSaleStartTime (${auctionSaleStartTime})`
+        )
+      }
+    }
+    if (allowlistDiscountPercent) {
+      check(
+        allowlistDiscountPercent.lte(BASIS_POINT_PRECISION),
+        `allowlistDiscountPercent (${allowlistDiscountPercent}) exceeds ${BASIS_POINT_PRECISION}`
+      )
+    }
+    if (publicSaleDiscountPercent) {
+      check(
+        publicSaleDiscountPercent.lte(BASIS_POINT_PRECISION),
+        `publicSaleDiscountPercent (${publicSaleDiscountPercent}) exceeds ${BASIS_POINT_PRECISION}`
+      )
+    }
+  } else {
+    const allowlistPrice = toBigNumber('allowlistPrice')
+    const salePrice = toBigNumber('salePrice')
+
+    if (allowlistStartTime) {
+      check(allowlistStartTime.gte(now), `allowlistStartTime (${allowlistStartTime}) is in the past`)
+    }
+    if (allowlistPrice && salePrice) {
+      check(
+        allowlistPrice.lte(salePrice),
+        `allowlistPrice (${allowlistPrice}) must not be greater than salePrice (${salePrice})`
+      )
+    }
+  }
+
+  // keyHash and maxGasLimit default to the network settings when VRF is enabled
+  if (launchConfig.subscriptionId) {
+    // Anything else is the name of a gas lane, resolved on the target network
+    if (launchConfig.keyHash?.startsWith('0x')) {
+      check(utils.isHexString(launchConfig.keyHash, 32), `keyHash must be a 32 bytes hex string`)
+    }
+    const maxGasLimit = launchConfig.maxGasLimit !== undefined ? toBigNumber('maxGasLimit') : undefined
+    if (maxGasLimit) {
+      check(
+        maxGasLimit.gte(MIN_CALLBACK_GAS_LIMIT),
+        `maxGasLimit (${maxGasLimit}) must be at least ${MIN_CALLBACK_GAS_LIMIT}`
+      )
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Prints every violation of the config and throws if there is any
+ * @param launchConfig The loaded config
+ * @param now The current block timestamp
+ */
+export const assertValidLaunchConfig = (launchConfig: BaseLaunchConfig, now: number) => {
+  const errors = validateLaunchConfig(launchConfig, now)
+  if (errors.length > 0) {
+    console.log(`-- Invalid launch config, ${errors.length} error(s) found --`)
+    errors.forEach((error) => console.log(`  - ${error}`))
+    throw new Error('Invalid launch config')
+  }
+}
@@ -0,0 +1,149 @@
+import { ContractTransaction, providers } from 'ethers'
+import crypto from 'crypto'
+import fs from 'fs'
+import jsonfile from 'jsonfile'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import { getLaunchConfigPath, getStatePath } from './utils'
+
+// Steps of deploy-launchpeg and deploy-flatlaunchpeg, in execution order
+export const LAUNCH_STEPS = ['create', 'initialize-phases', 'configure-allowlist', 'set-uris', 'set-VRF'] as const
+
+export type LaunchStep = (typeof LAUNCH_STEPS)[number]
+
+export interface LaunchStepRecord {
+  transactions: string[]
+  // Unset while the step is running
+  completedAt?: number
+}
+
+export interface LaunchState {
+  configFilename: string
+  // Hash of the raw config file, to warn when it changed between runs
+  configHash: string
+  launchpeg?: string
+  steps: { [step in LaunchStep]?: LaunchStepRecord }
+}
+
+export interface LaunchPipeline {
+  statePath: string
+  state: LaunchState
+}
+
+const saveLaunchState = ({ statePath, state }: LaunchPipeline) => {
+  // Written to a temporary file first so that a crash can't leave a truncated state
+  jsonfile.writeFileSync(`${statePath}.tmp`, state, { spaces: 2 })
+  fs.renameSync(`${statePath}.tmp`, statePath)
+}
+
+/**
+ * Loads the state of a launch from `state/<network>/launch-<config>.json`, or starts a new one
+ * @param hre Hardhat runtime environment
+ * @param configFilename Config file path, relative to `tasks/config`
+ * @param fromStep Forgets this step and the following ones so that they are executed again
+ */
+export const loadLaunchPipeline = (
+  hre: HardhatRuntimeEnvironment,
+  configFilename: string,
+  fromStep?: string
+): LaunchPipeline => {
+  const stepIndex = fromStep ? LAUNCH_STEPS.indexOf(fromStep as LaunchStep) : LAUNCH_STEPS.length
+  if (stepIndex === -1) {
+    throw new Error(`Unknown step ${fromStep}, expected one of ${LAUNCH_STEPS.join(', ')}`)
+  }
+
+  const statePath = getStatePath(hre, `launch-${configFilename.replace(/[/\\]/g, '_')}`)
+  const configHash = crypto
+    .createHash('sha256')
+    .update(fs.readFileSync(getLaunchConfigPath(configFilename)))
+    .digest('hex')
+  let state: LaunchState = { configFilename, configHash, steps: {} }
+
+  if (fs.existsSync(statePath)) {
+    state = jsonfile.readFileSync(statePath)
+    console.log(`-- Resuming launch from ${statePath} --`)
+    if (state.configHash !== configHash) {
+      console.log('The config changed since the last run, use --from-step to redo the completed steps')
+      state.configHash = configHash
+    }
+  }
+
+  if (fromStep) {
+    if (stepIndex > 0 && !state.steps.create?.completedAt) {
+      throw new Error(`Can't start from ${fromStep}, the collection hasn't been created yet`)
+    }
+    LAUNCH_STEPS.slice(stepIndex).forEach((step) => delete state.steps[step])
+    if (stepIndex === 0) {
+      delete state.launchpeg
+    }
+  }
+
+  const pipeline = { statePath, state }
+  saveLaunchState(pipeline)
+  return pipeline
+}
+
+/**
+ * Runs a step of the launch unless a previous run completed it, then records its transactions
+ * @param pipeline The launch pipeline, steps are always executed when undefined
+ * @param step Name of the step
+ * @param action Executes the step and returns the hashes of its transactions
+ */
+export const runLaunchStep = async (
+  pipeline: LaunchPipeline | undefined,
+  step: LaunchStep,
+  action: () => Promise<string[]>
+) => {
+  if (!pipeline) {
+    await action()
+    return
+  }
+
+  const record = pipeline.state.steps[step]
+  if (record?.completedAt) {
+    console.log(`-- Skipping ${step}, already completed (${record.transactions.join(', ') || 'no transaction'}) --`)
+    return
+  }
+
+  const transactions = await action()
+  // Transactions recorded by `sendOnce` are kept, along with the ones of a previous attempt
+  const previousTransactions = pipeline.state.steps[step]?.transactions ?? []
+  pipeline.state.steps[step] = {
+    transactions: Array.from(new Set([...previousTransactions, ...transactions])),
+    completedAt: Math.floor(Date.now() / 1000),
+  }
+  saveLaunchState(pipeline)
+}
+
+/**
+ * Sends the transaction of a step that must not be executed twice, such as the creation of the collection.
+ * The hash is recorded before waiting for the receipt: if a previous run crashed after sending it, the recorded
+ * transaction is awaited instead of sending a new one
+ * @param hre Hardhat runtime environment
+ * @param pipeline The launch pipeline, the transaction is simply sent when undefined
+ * @param step Name of the step
+ * @param send Sends the transaction
+ */
+export const sendOnce = async (
+  hre: HardhatRuntimeEnvironment,
+  pipeline: LaunchPipeline | undefined,
+  step: LaunchStep,
+  send: () => Promise<ContractTransaction>
+): Promise<providers.TransactionReceipt> => {
+  const pendingHash = pipeline?.state.steps[step]?.transactions.slice(-1)[0]
+  if (pendingHash && (await hre.ethers.provider.getTransaction(pendingHash))) {
+    console.log(`-- Waiting for ${pendingHash}, sent by a previous run --`)
+    const receipt = await hre.ethers.provider.waitForTransaction(pendingHash)
+    if (receipt.status === 1) {
+      return receipt
+    }
+    console.log(`${pendingHash} reverted, sending it again`)
+  }
+
+  const tx = await send()
+  if (pipeline) {
+    const transactions = [...(pipeline.state.steps[step]?.transactions ?? []), tx.hash]
+    pipeline.state.steps[step] = { transactions }
+    saveLaunchState(pipeline)
+  }
+  return tx.wait()
+}
@@ -0,0 +1,62 @@
+import '@nomiclabs/hardhat-ethers'
+import 'hardhat-deploy'
+import { constants } from 'ethers'
+import { task } from 'hardhat/config'
+import { getLaunchpegStatus, LaunchpegStatus } from './lens'
+import { formatDuration, formatTimestamp } from './timestamps'
+import { resolveContractAddress } from './utils'
+
+const printStatus = (status: LaunchpegStatus, now: number) => {
+  console.log(`-- ${status.name} (${status.symbol}), ${status.type} at ${status.address} --`)
+
+  const countdown = status.nextPhase ? `, ${status.nextPhase} in ${formatDuration(status.nextPhaseIn!)}` : ''
+  console.log(`Phase: ${status.currentPhase}${countdown}`)
+  console.log(`Supply: ${status.totalSupply} / ${status.collectionSize} minted, max batch size ${status.maxBatchSize}`)
+
+  console.log('Sale:')
+  status.phases.forEach(({ phase, startTime, price, minted, allocation }) => {
+    const start = startTime > 0 ? formatTimestamp(startTime) : 'not initialized'
+    console.log(`  ${phase.padEnd(12)} ${price} AVAX, ${minted} / ${allocation} minted, starts ${start}`)
+  })
+  console.log(`  ${'Devs'.padEnd(12)} ${status.devs.minted} / ${status.devs.allocation} minted`)
+
+  const { reveal } = status
+  console.log(`Reveal: ${reveal.lastTokenRevealed} / ${status.collectionSize} revealed, batches of ${reveal.batchSize}`)
+  if (reveal.nextRevealTime !== undefined) {
+    const time =
+      reveal.nextRevealTime > now
+        ? `${formatTimestamp(reveal.nextRevealTime)} (in ${formatDuration(reveal.nextRevealTime - now)})`
+        : 'now'
+    const mints = reveal.mintsBeforeNextReveal ? `, after ${reveal.mintsBeforeNextReveal} more mint(s)` : ''
+    console.log(`  Next batch: ${time}${mints}`)
+  }
+
+  if (status.user) {
+    const { address, balance, numberMinted, allowlistAllowance } = status.user
+    console.log(
+      `User ${address}: ${balance} owned, ${numberMinted} minted, ${allowlistAllowance} allowlist spot(s) left`
+    )
+  }
+}
+
+task('launchpeg-status', 'Print the state of a Launchpeg or FlatLaunchpeg sale')
+  .addParam('address', 'Address of the collection, or its deployment name such as Launchpeg_<symbol>')
+  .addOptionalParam('user', 'Also print the balance and allowlist allowance of this address')
+  .addFlag('json', 'Print the status as JSON')
+  .setAction(async ({ address, user, json }, hre) => {
+    const ethers = hre.ethers
+
+    const launchpegAddress = await resolveContractAddress(hre, address)
+    const lens = await ethers.getContractAt('LaunchpegLens', (await hre.deployments.get('LaunchpegLens')).address)
+
+    const { timestamp } = await ethers.provider.getBlock('latest')
+    const data = await lens.getLaunchpegData(launchpegAddress, user ?? constants.AddressZero)
+
+    const status = getLaunchpegStatus(data, timestamp, user)
+    if (json) {
+      console.log(JSON.stringify(status, null, 2))
+    } else {
+      printStatus(status, timestamp)
+    }
+    return status
+  })
@@ -0,0 +1,170 @@
+import { BigNumber, utils } from 'ethers'
+
+// Mirrors `LaunchpegLens.LaunchpegType` and `IBaseLaunchpeg.Phase`
+export const LAUNCHPEG_TYPES = ['Unknown', 'Launchpeg', 'FlatLaunchpeg'] as const
+export const PHASES = ['NotStarted', 'DutchAuction', 'Allowlist', 'PublicSale'] as const
+
+export type LaunchpegType = (typeof LAUNCHPEG_TYPES)[number]
+export type Phase = (typeof PHASES)[number]
+
+export interface PhaseStatus {
+  phase: Phase
+  startTime: number
+  // Current price in AVAX
+  price: string
+  minted: number
+  allocation: number
+}
+
+export interface LaunchpegStatus {
+  address: string
+  type: LaunchpegType
+  name: string
+  symbol: string
+  collectionSize: number
+  maxBatchSize: number
+  totalSupply: number
+  currentPhase: Phase
+  nextPhase?: Phase
+  // Seconds until the next phase starts
+  nextPhaseIn?: number
+  phases: PhaseStatus[]
+  devs: {
+    minted: number
+    allocation: number
+  }
+  reveal: {
+    batchSize: number
+    lastTokenRevealed: number
+    // Unset once the whole collection is revealed
+    nextRevealTime?: number
+    // Tokens that must be minted before the next batch can be revealed
+    mintsBeforeNextReveal?: number
+  }
+  user?: {
+    address: string
+    balance: number
+    numberMinted: number
+    allowlistAllowance: number
+  }
+}
+
+const toNumber = (value: BigNumber): number => value.toNumber()
+
+/**
+ * Converts the `LensData` struct returned by `LaunchpegLens` to a plain object
+ * @param data Result of `getLaunchpegData` or an item of `getAllLaunchpegsFromType`
+ * @param now Current block timestamp
+ * @param user Address the user data was fetched for
+ */
+export const getLaunchpegStatus = (data: utils.Result, now: number, user?: string): LaunchpegStatus => {
+  const { collectionData, revealData, userData } = data
+  const type = LAUNCHPEG_TYPES[data.launchType]
+  const totalSupply = toNumber(collectionData.totalSupply)
+  const collectionSize = toNumber(collectionData.collectionSize)
+
+  let phases: PhaseStatus[]
+  let currentPhase: Phase
+  let amountForDevs: number
+  if (type === 'Launchpeg') {
+    const launchpegData = data.launchpegData
+    currentPhase = PHASES[launchpegData.currentPhase]
+    amountForDevs = toNumber(launchpegData.amountForDevs)
+    const auctionMinted = toNumber(launchpegData.amountMintedDuringAuction)
+    const allowlistMinted = toNumber(launchpegData.amountMintedDuringAllowlist)
+    phases = [
+      {
+        phase: 'DutchAuction',
+        startTime: toNumber(launchpegData.auctionSaleStartTime),
+        price: utils.formatEther(launchpegData.auctionPrice),
+        minted: auctionMinted,
+        allocation: toNumber(launchpegData.amountForAuction),
+      },
+      {
+        phase: 'Allowlist',
+        startTime: toNumber(launchpegData.allowlistStartTime),
+        price: utils.formatEther(launchpegData.allowlistPrice),
+        minted: allowlistMinted,
+        allocation: toNumber(launchpegData.amountForAllowlist),
+      },
+      {
+        phase: 'PublicSale',
+        startTime: toNumber(launchpegData.publicSaleStartTime),
+        price: utils.formatEther(launchpegData.publicSalePrice),
+        minted: toNumber(launchpegData.amountMintedDuringPublicSale),
+        // Whatever wasn't sold during the previous phases
+        allocation: collectionSize - amountForDevs - auctionMinted - allowlistMinted,
+      },
+    ]
+  } else {
+    const flatLaunchpegData = data.flatLaunchpegData
+    currentPhase = PHASES[flatLaunchpegData.currentPhase]
+    amountForDevs = toNumber(flatLaunchpegData.amountForDevs)
+    const allowlistMinted = toNumber(flatLaunchpegData.amountMintedDuringAllowlist)
+    phases = [
+      {
+        phase: 'Allowlist',
+        startTime: toNumber(flatLaunchpegData.allowlistStartTime),
+        price: utils.formatEther(flatLaunchpegData.allowlistPrice),
+        minted: allowlistMinted,
+        allocation: toNumber(flatLaunchpegData.amountForAllowlist),
+      },
+      {
+        phase: 'PublicSale',
+        startTime: toNumber(flatLaunchpegData.publicSaleStartTime),
+        price: utils.formatEther(flatLaunchpegData.salePrice),
+        minted: toNumber(flatLaunchpegData.amountMintedDuringPublicSale),
+        allocation: collectionSize - amountForDevs - allowlistMinted,
+      },
+    ]
+  }
+
+  // Phases aren't initialized while their start time is 0
+  const next = phases.find(({ startTime }) => startTime > now)
+  const mintedDuringSale = phases.reduce((sum, { minted }) => sum + minted, 0)
+
+  const batchSize = toNumber(revealData.revealBatchSize)
+  const lastTokenRevealed = toNumber(revealData.lastTokenRevealed)
+  const reveal: LaunchpegStatus['reveal'] = { batchSize, lastTokenRevealed }
+  if (lastTokenRevealed < collectionSize) {
+    const batchNumber = Math.floor(lastTokenRevealed / batchSize)
+    reveal.nextRevealTime = toNumber(revealData.revealStartTime.add(revealData.revealInterval.mul(batchNumber)))
+    reveal.mintsBeforeNextReveal = Math.max(lastTokenRevealed + batchSize - totalSupply, 0)
+  }
+
+  return {
+    address: data.id,
+    type,
+    name: collectionData.name,
+    symbol: collectionData.symbol,
+    collectionSize,
+    maxBatchSize: toNumber(collectionData.maxBatchSize),
+    totalSupply,
+    currentPhase,
+    nextPhase: next?.phase,
+    nextPhaseIn: next ? next.startTime - now : undefined,
+    phases,
+    devs: {
+      minted: totalSupply - mintedDuringSale,
+      allocation: amountForDevs,
+    },
+    reveal,
+    user: user
+      ? {
+          address: user,
+          balance: toNumber(userData.balanceOf),
+          numberMinted: toNumber(userData.numberMinted),
+          allowlistAllowance: toNumber(userData.allowanceForAllowlistMint),
+        }
+      : undefined,
+  }
+}
+
+/**
+ * Tells whether every token that isn't reserved for the devs has been sold
+ * @param status Status of the collection
+ */
+export const isSoldOut = (status: LaunchpegStatus): boolean => {
+  const reservedForDevs = status.devs.allocation - status.devs.minted
+  return status.totalSupply + reservedForDevs >= status.collectionSize
+}
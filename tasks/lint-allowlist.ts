@@ -0,0 +1,47 @@
+import '@nomiclabs/hardhat-ethers'
+import { task } from 'hardhat/config'
+import { AllowlistRow, DuplicatePolicy, lintAllowlist, lintAllowlistAllocation, readAllowlistCsv } from './allowlist'
+import { resolveContractAddress } from './utils'
+
+task('lint-allowlist', 'Check an allowlist csv before seeding it')
+  .addParam('csvPath')
+  .addOptionalParam(
+    'contractAddress',
+    'Launchpeg to compare the total allowlist spots with, address or deployment name'
+  )
+  .addOptionalParam('duplicates', 'How to handle duplicated addresses: merge or last')
+  .setAction(async ({ csvPath, contractAddress, duplicates }, hre): Promise<AllowlistRow[]> => {
+    if (duplicates !== undefined && duplicates !== 'merge' && duplicates !== 'last') {
+      throw new Error(`Unknown duplicate policy "${duplicates}", expected merge or last`)
+    }
+
+    console.log('-- Linting allowlist --')
+
+    const records = await readAllowlistCsv(csvPath)
+    const { rows, errors, warnings } = lintAllowlist(records, duplicates as DuplicatePolicy | undefined)
+
+    const allowlistSpots = rows.reduce((total, row) => total + row.amount, 0)
+    console.log(`${records.length} rows, ${rows.length} addresses, ${allowlistSpots} allowlist spots`)
+
+    if (contractAddress) {
+      const launchpeg = await hre.ethers.getContractAt('Launchpeg', await resolveContractAddress(hre, contractAddress))
+      const amountForAllowlist = (await launchpeg.amountForAllowlist()).toNumber()
+      const allocation = lintAllowlistAllocation(allowlistSpots, amountForAllowlist)
+      errors.push(...allocation.errors)
+      warnings.push(...allocation.warnings)
+      if (allocation.errors.length === 0 && allocation.warnings.length === 0) {
+        console.log(`${allowlistSpots} spots for an allocation of ${amountForAllowlist}`)
+      }
+    }
+
+    warnings.forEach((warning) => console.log(`  warning: ${warning}`))
+    errors.forEach((error) => console.log(`  error: ${error}`))
+
+    if (errors.length > 0) {
+      throw new Error(`Allowlist has ${errors.length} error(s)`)
+    }
+
+    console.log(`-- Allowlist linted, ${warnings.length} warning(s) --`)
+
+    return rows
+  })
@@ -0,0 +1,127 @@
+import '@nomiclabs/hardhat-ethers'
+import 'hardhat-deploy'
+import { constants, utils } from 'ethers'
+import { task, types } from 'hardhat/config'
+import { getLaunchpegStatus, isSoldOut, LaunchpegStatus, PHASES } from './lens'
+import { toCsv } from './utils'
+
+// Launchpeg types as numbered by the factory
+const FACTORY_TYPES: { [type: string]: number[] } = {
+  launchpeg: [0],
+  flat: [1],
+  all: [0, 1],
+}
+
+const FORMATS = ['table', 'json', 'csv']
+
+interface LaunchpegListItem extends LaunchpegStatus {
+  projectOwner: string
+  soldOut: boolean
+}
+
+const COLUMNS: [string, (item: LaunchpegListItem) => string | number | boolean][] = [
+  ['address', (item) => item.address],
+  ['type', (item) => item.type],
+  ['symbol', (item) => item.symbol],
+  ['name', (item) => item.name],
+  ['phase', (item) => item.currentPhase],
+  ['totalSupply', (item) => item.totalSupply],
+  ['collectionSize', (item) => item.collectionSize],
+  ['soldOut', (item) => item.soldOut],
+  ['price', (item) => item.phases.find(({ phase }) => phase === item.currentPhase)?.price ?? ''],
+  ['revealed', (item) => item.reveal.lastTokenRevealed],
+  ['projectOwner', (item) => item.projectOwner],
+]
+
+const printTable = (items: LaunchpegListItem[]) => {
+  const rows = [COLUMNS.map(([name]) => name), ...items.map((item) => COLUMNS.map(([, get]) => String(get(item))))]
+  const widths = COLUMNS.map((_, i) => Math.max(...rows.map((row) => row[i].length)))
+  rows.forEach((row) => console.log(row.map((cell, i) => cell.padEnd(widths[i])).join('  ')))
+}
+
+task('list-launchpegs', 'List the collections created by the factory, newest first')
+  .addOptionalParam('type', 'launchpeg, flat or all', 'all')
+  .addOptionalParam('pageSize', 'Number of collections fetched per call', 50, types.int)
+  .addOptionalParam(
+    'page',
+    'Only list this page of each type, starting at 1, instead of every page',
+    undefined,
+    types.int
+  )
+  .addOptionalParam('phase', `Only list collections in this phase: ${PHASES.join(', ')}`)
+  .addOptionalParam('owner', 'Only list collections with this project owner')
+  .addOptionalParam(
+    'soldOut',
+    'Only list sold out collections when true, or the other ones when false',
+    undefined,
+    types.boolean
+  )
+  .addOptionalParam('format', `Output format: ${FORMATS.join(', ')}`, 'table')
+  .setAction(async ({ type, pageSize, page, phase, owner, soldOut, format }, hre) => {
+    const ethers = hre.ethers
+
+    const factoryTypes = FACTORY_TYPES[type]
+    if (!factoryTypes) {
+      throw new Error(`Unknown type ${type}, expected one of ${Object.keys(FACTORY_TYPES).join(', ')}`)
+    }
+    if (phase && !PHASES.includes(phase)) {
+      throw new Error(`Unknown phase ${phase}, expected one of ${PHASES.join(', ')}`)
+    }
+    if (!FORMATS.includes(format)) {
+      throw new Error(`Unknown format ${format}, expected one of ${FORMATS.join(', ')}`)
+    }
+    if (pageSize < 1 || (page !== undefined && page < 1)) {
+      throw new Error('--page-size and --page must be greater than 0')
+    }
+    const ownerFilter = owner ? utils.getAddress(owner) : undefined
+
+    const factory = await ethers.getContractAt(
+      'LaunchpegFactory',
+      (
+        await hre.deployments.get('LaunchpegFactory')
+      ).address
+    )
+    const lens = await ethers.getContractAt('LaunchpegLens', (await hre.deployments.get('LaunchpegLens')).address)
+    const { timestamp } = await ethers.provider.getBlock('latest')
+
+    const items: LaunchpegListItem[] = []
+    for (const factoryType of factoryTypes) {
+      const numLaunchpegs = (await factory.numLaunchpegs(factoryType)).toNumber()
+      // The lens returns the `_number` collections before index `_limit`, newest first
+      const firstLimit = page ? numLaunchpegs - (page - 1) * pageSize : numLaunchpegs
+      const lastLimit = page ? firstLimit : 1
+      for (let limit = firstLimit; limit >= lastLimit && limit > 0; limit -= pageSize) {
+        const lensData = await lens.getAllLaunchpegsFromType(factoryType, pageSize, limit, constants.AddressZero)
+        const projectOwners: string[] = await Promise.all(
+          lensData.map(async (data: utils.Result) => (await ethers.getContractAt('Launchpeg', data.id)).projectOwner())
+        )
+        lensData.forEach((data: utils.Result, i: number) => {
+          const status = getLaunchpegStatus(data, timestamp)
+          items.push({ ...status, projectOwner: projectOwners[i], soldOut: isSoldOut(status) })
+        })
+      }
+    }
+
+    const filtered = items.filter(
+      (item) =>
+        (!phase || item.currentPhase === phase) &&
+        (!ownerFilter || item.projectOwner === ownerFilter) &&
+        (soldOut === undefined || item.soldOut === soldOut)
+    )
+
+    if (format === 'json') {
+      console.log(JSON.stringify(filtered, null, 2))
+    } else if (format === 'csv') {
+      const header = COLUMNS.map(([name]) => name)
+      process.stdout.write(
+        toCsv(
+          header,
+          filtered.map((item) => COLUMNS.map(([, get]) => get(item)))
+        )
+      )
+    } else {
+      printTable(filtered)
+      console.log(`-- ${filtered.length} of ${items.length} collection(s) listed --`)
+    }
+    return filtered
+  })
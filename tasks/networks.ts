@@ -0,0 +1,121 @@
+import { utils } from 'ethers'
+
+export interface VRFSettings {
+  coordinator: string
+  // Key hashes of the coordinator gas lanes, by name
+  keyHashes: { [gasLane: string]: string }
+  defaultGasLane: string
+  // Default and maximum `callbackGasLimit` accepted by the coordinator
+  callbackGasLimit: number
+  maxCallbackGasLimit: number
+}
+
+export interface NetworkSettings {
+  chainId: number
+  // RPC settings, unset for the in-process hardhat network
+  url?: string
+  gasPrice?: number
+  // Unset when Chainlink VRF isn't available on the network
+  vrf?: VRFSettings
+}
+
+// Networks where mocks can be deployed and accounts impersonated
+export const LOCAL_NETWORKS = ['hardhat', 'localhost']
+
+// Settings of every network the tasks can run on, by hardhat network name
+export const NETWORKS: { [network: string]: NetworkSettings } = {
+  hardhat: {
+    chainId: 31337,
+  },
+  localhost: {
+    chainId: 31337,
+    url: 'http://127.0.0.1:8545',
+  },
+  fuji: {
+    chainId: 43113,
+    url: 'https://api.avax-test.network/ext/bc/C/rpc',
+    gasPrice: 26_000_000_000,
+    vrf: {
+      coordinator: '0x2eD832Ba664535e5886b75D64C46EB9a228C2610',
+      keyHashes: {
+        '300gwei': '0x354d2f95da55398f44b7cff77da56283d9c6c829a4bdf1bbcaf2ad6a4d081f61',
+      },
+      defaultGasLane: '300gwei',
+      callbackGasLimit: 200_000,
+      maxCallbackGasLimit: 2_500_000,
+    },
+  },
+  avalanche: {
+    chainId: 43114,
+    url: 'https://api.avax.network/ext/bc/C/rpc',
+    gasPrice: 26_000_000_000,
+    vrf: {
+      coordinator: '0xd5D517aBE5cF79B7e95eC98dB0f0277788aFF634',
+      keyHashes: {
+        '200gwei': '0x83250c5584ffa93feb6ee082981c5ebe484c865196750b39835ad4f13780435d',
+        '500gwei': '0x89630569c9567e43c4fe7b1633258df9f2531b62f2352fa721cf3162ee4ecb46',
+        '1000gwei': '0x06eb0e2ea7cca202fc7c8258397a36f33d6568aed7c9a4ef7ea2c0f7a4ff4ebd',
+      },
+      defaultGasLane: '200gwei',
+      callbackGasLimit: 200_000,
+      maxCallbackGasLimit: 2_500_000,
+    },
+  },
+}
+
+/**
+ * Returns the settings of a network
+ * @param network Hardhat network name
+ */
+export const getNetworkSettings = (network: string): NetworkSettings => {
+  const settings = NETWORKS[network]
+  if (!settings) {
+    const known = Object.keys(NETWORKS).join(', ')
+    throw new Error(`Network ${network} isn't defined in tasks/networks.ts, known networks are ${known}`)
+  }
+  return settings
+}
+
+/**
+ * Returns the RPC settings of a network, as expected by the hardhat config
+ * @param network Hardhat network name
+ */
+export const getRpcSettings = (network: string): { url: string; chainId: number; gasPrice?: number } => {
+  const { url, chainId, gasPrice } = getNetworkSettings(network)
+  if (!url) {
+    throw new Error(`Network ${network} has no RPC url in tasks/networks.ts`)
+  }
+  return { url, chainId, gasPrice }
+}
+
+/**
+ * Returns the Chainlink VRF settings of a network
+ * @param network Hardhat network name
+ */
+export const getVRFSettings = (network: string): VRFSettings => {
+  const { vrf } = getNetworkSettings(network)
+  if (!vrf) {
+    const hint = LOCAL_NETWORKS.includes(network) ? ', use vrf-local-setup to deploy a mock' : ''
+    throw new Error(`Network ${network} has no VRF coordinator in tasks/networks.ts${hint}`)
+  }
+  return vrf
+}
+
+/**
+ * Resolves a key hash parameter, which can be a key hash, the name of a gas lane of the network, or unset to use
+ * the default gas lane
+ * @param vrf VRF settings of the network
+ * @param keyHashOrGasLane Key hash or gas lane name
+ */
+export const resolveKeyHash = (vrf: VRFSettings, keyHashOrGasLane?: string): string => {
+  if (keyHashOrGasLane && utils.isHexString(keyHashOrGasLane, 32)) {
+    return keyHashOrGasLane
+  }
+  const gasLane = keyHashOrGasLane ?? vrf.defaultGasLane
+  const keyHash = vrf.keyHashes[gasLane]
+  if (!keyHash) {
+    const known = Object.keys(vrf.keyHashes).join(', ')
+    throw new Error(`Unknown gas lane ${gasLane}, expected a 32 bytes key hash or one of ${known}`)
+  }
+  return keyHash
+}
@@ -0,0 +1,149 @@
+import fs from 'fs'
+import { BaseLaunchConfig, isLaunchConfig } from './launch-config'
+import { getLaunchConfigPath, loadLaunchConfig } from './utils'
+
+// Phases a playground collection can be left in. `SoldOut` is the public sale with the whole collection minted
+export const PLAYGROUND_PHASES = ['NotStarted', 'DutchAuction', 'Allowlist', 'PublicSale', 'SoldOut'] as const
+
+export type PlaygroundPhase = (typeof PLAYGROUND_PHASES)[number]
+
+export interface PlaygroundCollection {
+  // Key of the collection in the manifest
+  name: string
+  // Launch config, relative to `tasks/config`. Its time expressions must be relative to `now`
+  configFilename: string
+  phase: PlaygroundPhase
+  // Number of batches to reveal, the tokens they need are minted
+  revealedBatches?: number
+}
+
+export interface PlaygroundScenario {
+  collections: PlaygroundCollection[]
+}
+
+export interface PlaygroundManifest {
+  network: string
+  chainId: string
+  scenario: string
+  // Timestamp at which every collection is in its phase
+  phasesAt: number
+  collections: {
+    [name: string]: {
+      address: string
+      contract: 'Launchpeg' | 'FlatLaunchpeg'
+      phase: PlaygroundPhase
+      revealedBatches: number
+      configFilename: string
+    }
+  }
+}
+
+// Collections are left this long after the start of their phase, unless the phase is shorter
+const PHASE_ELAPSED = 60
+
+/**
+ * Loads and checks a scenario from `tasks/config`
+ * @param filename Scenario file path, relative to `tasks/config`
+ */
+export const loadPlaygroundScenario = (filename: string): PlaygroundScenario => {
+  const scenario: PlaygroundScenario = JSON.parse(fs.readFileSync(getLaunchConfigPath(filename), 'utf8'))
+  if (!Array.isArray(scenario.collections) || scenario.collections.length === 0) {
+    throw new Error(`${filename} has no collections`)
+  }
+
+  const names = new Set<string>()
+  for (const { name, configFilename, phase, revealedBatches } of scenario.collections) {
+    if (!name || !configFilename) {
+      throw new Error(`Every collection of ${filename} needs a name and a configFilename`)
+    }
+    if (names.has(name)) {
+      throw new Error(`${name} is used by several collections of ${filename}`)
+    }
+    names.add(name)
+    if (!PLAYGROUND_PHASES.includes(phase)) {
+      throw new Error(`Unknown phase "${phase}" for ${name}, expected one of ${PLAYGROUND_PHASES.join(', ')}`)
+    }
+    if (revealedBatches !== undefined && (!Number.isInteger(revealedBatches) || revealedBatches < 0)) {
+      throw new Error(`revealedBatches of ${name} must be a non-negative integer, got ${revealedBatches}`)
+    }
+  }
+  return scenario
+}
+
+/**
+ * Returns the start of the first phase of a collection: the auction, or the allowlist for a FlatLaunchpeg
+ * @param launchConfig The config, with resolved timestamps
+ */
+export const getSaleStartTime = (launchConfig: BaseLaunchConfig): number => {
+  return Number(isLaunchConfig(launchConfig) ? launchConfig.auctionSaleStartTime : launchConfig.allowlistStartTime)
+}
+
+/**
+ * Tells whether the phases of a config follow `now`, which is needed to move them to the schedule of the scenario
+ * @param configFilename Config file path, relative to `tasks/config`
+ * @param now The current timestamp in seconds
+ */
+export const hasRelativeSchedule = (configFilename: string, now: number): boolean => {
+  const getPhaseStartTimes = (launchConfig: BaseLaunchConfig) => [
+    getSaleStartTime(launchConfig),
+    Number(launchConfig.allowlistStartTime),
+    Number(launchConfig.publicSaleStartTime),
+  ]
+  const startTimes = getPhaseStartTimes(loadLaunchConfig(configFilename, now))
+  const laterStartTimes = getPhaseStartTimes(loadLaunchConfig(configFilename, now + 1))
+  return startTimes.every((startTime, i) => laterStartTimes[i] === startTime + 1)
+}
+
+/**
+ * Returns when a collection is in the given phase, in seconds after the start of its sale
+ * @param launchConfig The config, with resolved timestamps
+ * @param phase The phase to be in
+ * @param now Timestamp the config was resolved with, a collection that is not started keeps the delay before its sale
+ * @returns A negative offset for `NotStarted`
+ */
+export const getPhaseOffset = (launchConfig: BaseLaunchConfig, phase: PlaygroundPhase, now: number): number => {
+  if (phase === 'NotStarted') {
+    return Math.min(-PHASE_ELAPSED, now - getSaleStartTime(launchConfig))
+  }
+
+  if (phase === 'DutchAuction' && !isLaunchConfig(launchConfig)) {
+    throw new Error(`${launchConfig.name} is a FlatLaunchpeg, it has no dutch auction`)
+  }
+  const saleStart = getSaleStartTime(launchConfig)
+  const allowlistStart = Number(launchConfig.allowlistStartTime)
+  const publicSaleStart = Number(launchConfig.publicSaleStartTime)
+  const phaseBounds: { [phase: string]: [number, number] } = {
+    DutchAuction: [saleStart, allowlistStart],
+    Allowlist: [allowlistStart, publicSaleStart],
+    PublicSale: [publicSaleStart, Infinity],
+    SoldOut: [publicSaleStart, Infinity],
+  }
+  const [start, end] = phaseBounds[phase]
+
+  // Short phases are entered halfway so that the next one doesn't start in the meantime
+  const elapsed = Math.min(PHASE_ELAPSED, Math.floor((end - start) / 2))
+  if (elapsed <= 0) {
+    throw new Error(`The ${phase} phase of ${launchConfig.name} is too short to be in it`)
+  }
+  return start - saleStart + elapsed
+}
+
+/**
+ * Returns the number of tokens to mint so that a collection is sold out or can reveal its batches
+ * @param launchConfig The config
+ * @param collection The collection of the scenario
+ */
+export const getMintTarget = (
+  launchConfig: BaseLaunchConfig,
+  { phase, revealedBatches }: PlaygroundCollection
+): number => {
+  const collectionSize = Number(launchConfig.collectionSize)
+  if (phase === 'SoldOut') {
+    return collectionSize
+  }
+  const target = (revealedBatches ?? 0) * Number(launchConfig.batchRevealSize)
+  if (target > collectionSize) {
+    throw new Error(`${launchConfig.name} has less than ${revealedBatches} batches to reveal`)
+  }
+  return target
+}
@@ -0,0 +1,61 @@
+import '@nomiclabs/hardhat-ethers'
+import { utils } from 'ethers'
+import { task } from 'hardhat/config'
+import { isLaunchConfig, LaunchConfig } from './launch-config'
+import { getAuctionDropPerStep, getAuctionSaleDuration, getPriceSchedule } from './pricing'
+import { formatDuration, formatTimestamp } from './timestamps'
+import { loadLaunchConfig, toCsv } from './utils'
+
+const FORMATS = ['table', 'csv']
+
+task('price-schedule', 'Print the price of each auction step of a launch config and the derived sale prices')
+  .addParam('configFilename')
+  .addOptionalParam('format', `Output format: ${FORMATS.join(', ')}`, 'table')
+  .setAction(async ({ configFilename, format }, hre) => {
+    if (!FORMATS.includes(format)) {
+      throw new Error(`Unknown format ${format}, expected one of ${FORMATS.join(', ')}`)
+    }
+
+    const { timestamp: now } = await hre.ethers.provider.getBlock('latest')
+    const launchConfig = loadLaunchConfig<LaunchConfig>(configFilename, now)
+    if (!isLaunchConfig(launchConfig)) {
+      throw new Error(`${configFilename} is a FlatLaunchpeg config, its prices are fixed`)
+    }
+
+    const schedule = getPriceSchedule(launchConfig)
+    const rows = schedule.map(({ step, timestamp, auctionPrice, allowlistPrice, publicSalePrice }) => [
+      step,
+      timestamp,
+      formatTimestamp(timestamp),
+      utils.formatEther(auctionPrice),
+      utils.formatEther(allowlistPrice),
+      utils.formatEther(publicSalePrice),
+    ])
+    const header = ['step', 'timestamp', 'date', 'auctionPrice', 'allowlistPrice', 'publicSalePrice']
+
+    if (format === 'csv') {
+      process.stdout.write(toCsv(header, rows))
+      return schedule
+    }
+
+    const duration = getAuctionSaleDuration(launchConfig).toNumber()
+    const dropPerStep = getAuctionDropPerStep(launchConfig)
+    console.log('-- Auction --')
+    console.log(`  duration      ${formatDuration(duration)} (${duration}s)`)
+    console.log(`  drop interval ${formatDuration(Number(launchConfig.auctionDropInterval))}`)
+    console.log(`  drop per step ${utils.formatEther(dropPerStep)} AVAX (${dropPerStep} wei)`)
+
+    // The allowlist and public sale prices depend on the price of the last auction mint
+    console.log('-- Prices, by step of the last auction mint --')
+    const cells = [header, ...rows.map((row) => row.map(String))]
+    const widths = header.map((_, i) => Math.max(...cells.map((row) => row[i].length)))
+    cells.forEach((row) => console.log(row.map((cell, i) => cell.padEnd(widths[i])).join('  ')))
+
+    // Both divisions of the drop per step round down, so the last drop is usually different from the other ones
+    const lastDrop = schedule[schedule.length - 2].auctionPrice.sub(launchConfig.auctionEndPrice)
+    if (!lastDrop.eq(dropPerStep)) {
+      console.log(`The last drop, when the allowlist starts, is ${utils.formatEther(lastDrop)} AVAX (${lastDrop} wei)`)
+    }
+
+    return schedule
+  })
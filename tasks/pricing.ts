@@ -0,0 +1,114 @@
+import { BigNumber, BigNumberish } from 'ethers'
+
+// TypeScript port of the price functions of Launchpeg.sol. Everything is computed with integer math, in the
+// same order as the contract, so that the results match to the wei
+
+// Same field names as `LaunchConfig`, so that a resolved config can be passed as is
+export interface AuctionParams {
+  auctionSaleStartTime: BigNumberish
+  auctionStartPrice: BigNumberish
+  auctionEndPrice: BigNumberish
+  auctionDropInterval: BigNumberish
+  allowlistStartTime: BigNumberish
+}
+
+export interface PricingParams extends AuctionParams {
+  allowlistDiscountPercent: BigNumberish
+  publicSaleDiscountPercent: BigNumberish
+}
+
+export interface PriceStep {
+  step: number
+  timestamp: number
+  auctionPrice: BigNumber
+  // Prices of the next phases if the last auction mint happens during this step
+  allowlistPrice: BigNumber
+  publicSalePrice: BigNumber
+}
+
+const BASIS_POINT_PRECISION = 10_000
+
+/**
+ * Returns the duration of the auction, as set by `initializePhases`
+ * @param params Auction parameters
+ */
+export const getAuctionSaleDuration = ({ auctionSaleStartTime, allowlistStartTime }: AuctionParams): BigNumber =>
+  BigNumber.from(allowlistStartTime).sub(auctionSaleStartTime)
+
+/**
+ * Returns the price drop of each step, as set by `initializePhases`. Both divisions round down, so the start price
+ * minus every drop is usually a bit above the end price
+ * @param params Auction parameters
+ */
+export const getAuctionDropPerStep = (params: AuctionParams): BigNumber =>
+  BigNumber.from(params.auctionStartPrice)
+    .sub(params.auctionEndPrice)
+    .div(getAuctionSaleDuration(params).div(params.auctionDropInterval))
+
+/**
+ * Returns the auction price at a given time, like `Launchpeg.getAuctionPrice(auctionSaleStartTime)`
+ * @param params Auction parameters
+ * @param timestamp Block timestamp
+ */
+export const getAuctionPrice = (params: AuctionParams, timestamp: BigNumberish): BigNumber => {
+  const { auctionSaleStartTime, auctionStartPrice, auctionEndPrice, auctionDropInterval } = params
+  if (BigNumber.from(timestamp).lt(auctionSaleStartTime)) {
+    return BigNumber.from(auctionStartPrice)
+  }
+  const elapsed = BigNumber.from(timestamp).sub(auctionSaleStartTime)
+  if (elapsed.gte(getAuctionSaleDuration(params))) {
+    return BigNumber.from(auctionEndPrice)
+  }
+  const steps = elapsed.div(auctionDropInterval)
+  return BigNumber.from(auctionStartPrice).sub(steps.mul(getAuctionDropPerStep(params)))
+}
+
+const getDiscountedPrice = (lastAuctionPrice: BigNumberish, discountPercent: BigNumberish): BigNumber => {
+  const price = BigNumber.from(lastAuctionPrice)
+  return price.sub(price.mul(discountPercent).div(BASIS_POINT_PRECISION))
+}
+
+/**
+ * Returns the allowlist price, like `Launchpeg.getAllowlistPrice`
+ * @param lastAuctionPrice Price of the last auction mint, the start price if there was none
+ * @param allowlistDiscountPercent Discount in basis points
+ */
+export const getAllowlistPrice = (lastAuctionPrice: BigNumberish, allowlistDiscountPercent: BigNumberish): BigNumber =>
+  getDiscountedPrice(lastAuctionPrice, allowlistDiscountPercent)
+
+/**
+ * Returns the public sale price, like `Launchpeg.getPublicSalePrice`
+ * @param lastAuctionPrice Price of the last auction mint, the start price if there was none
+ * @param publicSaleDiscountPercent Discount in basis points
+ */
+export const getPublicSalePrice = (
+  lastAuctionPrice: BigNumberish,
+  publicSaleDiscountPercent: BigNumberish
+): BigNumber => getDiscountedPrice(lastAuctionPrice, publicSaleDiscountPercent)
+
+/**
+ * Returns every step of the auction, from its start to the end price, with the allowlist and public sale prices
+ * derived from each possible `lastAuctionPrice`
+ * @param params Auction parameters and discounts
+ */
+export const getPriceSchedule = (params: PricingParams): PriceStep[] => {
+  const start = BigNumber.from(params.auctionSaleStartTime).toNumber()
+  const interval = BigNumber.from(params.auctionDropInterval).toNumber()
+  const duration = getAuctionSaleDuration(params).toNumber()
+
+  const schedule: PriceStep[] = []
+  // The last step is the end price, reached when the auction duration has elapsed even if it isn't a multiple of
+  // the drop interval
+  for (let step = 0; step * interval < duration + interval; step++) {
+    const timestamp = Math.min(start + step * interval, start + duration)
+    const auctionPrice = getAuctionPrice(params, timestamp)
+    schedule.push({
+      step,
+      timestamp,
+      auctionPrice,
+      allowlistPrice: getAllowlistPrice(auctionPrice, params.allowlistDiscountPercent),
+      publicSalePrice: getPublicSalePrice(auctionPrice, params.publicSaleDiscountPercent),
+    })
+  }
+  return schedule
+}
@@ -0,0 +1,44 @@
+import { BigNumber, BigNumberish } from 'ethers'
+import { MintRecord } from './sales-indexer'
+
+export interface Rebate {
+  address: string
+  // Number of auction mints, and tokens bought with them
+  mints: number
+  quantity: number
+  paid: BigNumber
+  rebate: BigNumber
+}
+
+/**
+ * Computes what each auction buyer paid above the clearing price. Wallets that minted several times are summed up,
+ * each mint being compared with the clearing price on its own
+ * @param mints `Mint` records of the collection, only the DutchAuction ones are used
+ * @param clearingPrice Price of one token every buyer should have paid, usually `lastAuctionPrice`
+ * @returns Rebate of every auction buyer, the ones that paid the clearing price or less included, biggest first
+ */
+export const computeRebates = (mints: MintRecord[], clearingPrice: BigNumberish): Rebate[] => {
+  const rebates = new Map<string, Rebate>()
+  for (const { sender, quantity, price, phase } of mints) {
+    if (phase !== 'DutchAuction') {
+      continue
+    }
+    if (!rebates.has(sender)) {
+      rebates.set(sender, {
+        address: sender,
+        mints: 0,
+        quantity: 0,
+        paid: BigNumber.from(0),
+        rebate: BigNumber.from(0),
+      })
+    }
+    const rebate = rebates.get(sender)!
+    rebate.mints++
+    rebate.quantity += quantity
+    rebate.paid = rebate.paid.add(BigNumber.from(price).mul(quantity))
+    if (BigNumber.from(price).gt(clearingPrice)) {
+      rebate.rebate = rebate.rebate.add(BigNumber.from(price).sub(clearingPrice).mul(quantity))
+    }
+  }
+  return [...rebates.values()].sort((a, b) => (b.rebate.gt(a.rebate) ? 1 : b.rebate.lt(a.rebate) ? -1 : 0))
+}
@@ -0,0 +1,37 @@
+import '@nomiclabs/hardhat-ethers'
+import { task } from 'hardhat/config'
+import { LOCAL_NETWORKS } from './networks'
+import { loadSafeBatch, replaySafeBatch } from './safe-batch'
+
+task('replay-safe-batch', 'Execute a Safe batch on a local network by impersonating the Safe')
+  .addParam('file', 'Path of the batch file')
+  .addParam('from', 'Address of the Safe')
+  .setAction(async ({ file, from }, hre) => {
+    const ethers = hre.ethers
+
+    if (!LOCAL_NETWORKS.includes(hre.network.name)) {
+      throw new Error(`Batches can only be replayed on a local network, not ${hre.network.name}`)
+    }
+
+    const batch = loadSafeBatch(file)
+    const chainId = await hre.getChainId()
+    if (batch.chainId !== chainId) {
+      console.log(`Batch was exported for chain ${batch.chainId}, replaying it on ${chainId}`)
+    }
+
+    console.log(`-- Replaying ${batch.transactions.length} transaction(s) from ${from} --`)
+
+    await hre.network.provider.request({ method: 'hardhat_impersonateAccount', params: [from] })
+    await hre.network.provider.request({
+      method: 'hardhat_setBalance',
+      params: [from, ethers.utils.hexStripZeros(ethers.utils.parseEther('100').toHexString())],
+    })
+    const safe = await ethers.getSigner(from)
+
+    const hashes = await replaySafeBatch(batch, safe)
+    hashes.forEach((hash, i) => console.log(`${i + 1}/${hashes.length} ${hash}`))
+
+    await hre.network.provider.request({ method: 'hardhat_stopImpersonatingAccount', params: [from] })
+
+    console.log('-- Batch replayed --')
+  })
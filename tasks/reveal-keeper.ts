@@ -0,0 +1,43 @@
+import '@nomiclabs/hardhat-ethers'
+import { task } from 'hardhat/config'
+import { checkCollection, RevealKeeperState } from './reveal'
+import { parseDuration } from './timestamps'
+import { resolveContractAddress } from './utils'
+
+task('reveal-keeper', 'Reveal the batches of one or more collections as soon as they are ready')
+  .addParam('addresses', 'Comma separated addresses or deployment names of the collections')
+  .addOptionalParam('interval', 'Time between two checks, e.g. 30s or 5m', '1m')
+  .addOptionalParam('stuckTimeout', 'Time after which a VRF request without answer is reported', '1h')
+  .addFlag('forceReveal', 'Call forceReveal on stuck VRF requests, the signer must be the owner of the collections')
+  .addFlag('once', 'Check the collections once and exit')
+  .setAction(async ({ addresses, interval, stuckTimeout, forceReveal, once }, hre) => {
+    const ethers = hre.ethers
+
+    const launchpegs = await Promise.all(
+      addresses
+        .split(',')
+        .map(async (address: string) =>
+          ethers.getContractAt('Launchpeg', await resolveContractAddress(hre, address.trim()))
+        )
+    )
+    const options = { stuckTimeout: parseDuration(stuckTimeout), forceReveal }
+    const intervalMs = parseDuration(interval) * 1000
+
+    console.log(`-- Watching ${launchpegs.length} collection(s) --`)
+
+    const state: RevealKeeperState = {}
+    for (;;) {
+      for (const launchpeg of launchpegs) {
+        try {
+          await checkCollection(launchpeg, state, options)
+        } catch (err) {
+          // A failing collection or RPC call must not stop the keeper
+          console.log(`${launchpeg.address}: ${err instanceof Error ? err.message : err}`)
+        }
+      }
+      if (once) {
+        return state
+      }
+      await new Promise((resolve) => setTimeout(resolve, intervalMs))
+    }
+  })
@@ -0,0 +1,45 @@
+import '@nomiclabs/hardhat-ethers'
+import fs from 'fs'
+import { task, types } from 'hardhat/config'
+import { getRevealedSeeds, getRevealMap } from './batch-reveal'
+import { getStatePath, resolveContractAddress, toCsv } from './utils'
+
+const FORMATS = ['json', 'csv']
+
+task('reveal-map', 'Export the metadata id of every revealed token of a collection')
+  .addParam('contractAddress', 'Address of the collection, or its deployment name such as Launchpeg_<symbol>')
+  .addOptionalParam('format', `Output format: ${FORMATS.join(', ')}`, 'json')
+  .addOptionalParam('output', 'Output file, defaults to state/<network>/reveal-map-<address>.<format>')
+  .addOptionalParam('fromBlock', 'First block to look for Reveal events in', 0, types.int)
+  .setAction(async ({ contractAddress: addressOrName, format, output, fromBlock }, hre) => {
+    if (!FORMATS.includes(format)) {
+      throw new Error(`Unknown format ${format}, expected one of ${FORMATS.join(', ')}`)
+    }
+    const contractAddress = await resolveContractAddress(hre, addressOrName)
+    // Only the BatchReveal part of the ABI is used, which is the same for both contracts
+    const launchpeg = await hre.ethers.getContractAt('Launchpeg', contractAddress)
+
+    console.log('-- Fetching batch seeds --')
+
+    const collectionSize = (await launchpeg.collectionSize()).toNumber()
+    const revealBatchSize = (await launchpeg.revealBatchSize()).toNumber()
+    const baseURI: string = await launchpeg.baseURI()
+    const seeds = await getRevealedSeeds(launchpeg, fromBlock)
+    console.log(`${seeds.length} of ${collectionSize / revealBatchSize} batches revealed`)
+
+    const map = getRevealMap({ collectionSize, revealBatchSize }, seeds)
+    const tokens = map.map((metadataId, tokenId) => ({ tokenId, metadataId, tokenURI: `${baseURI}${metadataId}` }))
+
+    const outputPath = output ?? getStatePath(hre, `reveal-map-${contractAddress}.${format}`)
+    if (format === 'json') {
+      const content = { address: contractAddress, collectionSize, revealBatchSize, seeds, tokens }
+      fs.writeFileSync(outputPath, JSON.stringify(content, null, 2) + '\n')
+    } else {
+      const rows = tokens.map(({ tokenId, metadataId, tokenURI }) => [tokenId, metadataId, tokenURI])
+      fs.writeFileSync(outputPath, toCsv(['tokenId', 'metadataId', 'tokenURI'], rows))
+    }
+
+    console.log(`-- ${tokens.length} tokens written to ${outputPath} --`)
+
+    return tokens
+  })
@@ -0,0 +1,126 @@
+import { Contract } from 'ethers'
+
+export interface RevealKeeperOptions {
+  // Seconds after which a VRF request without answer is considered stuck
+  stuckTimeout: number
+  // Calls `forceReveal` on stuck collections instead of only reporting them, requires the owner as signer
+  forceReveal: boolean
+}
+
+export interface CollectionKeeperState {
+  // Last block scanned for `Reveal` events
+  lastBlock: number
+  // Batch waiting for the VRF coordinator, and the time at which the keeper first saw the request
+  pendingBatch?: number
+  pendingSince?: number
+  stuckReported?: boolean
+}
+
+// State of the keeper, by collection address
+export type RevealKeeperState = { [address: string]: CollectionKeeperState }
+
+export type RevealKeeperEvent =
+  | { type: 'requested'; address: string; batchNumber: number; transactionHash: string }
+  | { type: 'revealed'; address: string; batchNumber: number; seed: string; transactionHash: string }
+  | { type: 'stuck'; address: string; batchNumber: number; pendingFor: number }
+  | { type: 'forceRevealed'; address: string; batchNumber: number; transactionHash: string }
+
+const logEvent = (event: RevealKeeperEvent) => {
+  switch (event.type) {
+    case 'requested':
+      console.log(`${event.address}: randomness requested for batch ${event.batchNumber} (${event.transactionHash})`)
+      break
+    case 'revealed':
+      console.log(
+        `${event.address}: batch ${event.batchNumber} revealed with seed ${event.seed} (${event.transactionHash})`
+      )
+      break
+    case 'stuck':
+      console.log(
+        `-- ALERT ${event.address}: VRF request for batch ${event.batchNumber} pending for ${event.pendingFor}s --`
+      )
+      break
+    case 'forceRevealed':
+      console.log(`${event.address}: batch ${event.batchNumber} force revealed (${event.transactionHash})`)
+      break
+  }
+}
+
+/**
+ * Checks a collection once: reveals the next batch when it's ready, reports or force reveals stuck VRF requests,
+ * and collects the `Reveal` events emitted since the previous check
+ * @param launchpeg Launchpeg or FlatLaunchpeg, connected to the signer sending the transactions
+ * @param state State of the keeper, updated in place
+ * @param options Keeper options
+ * @returns What happened during this check
+ */
+export const checkCollection = async (
+  launchpeg: Contract,
+  state: RevealKeeperState,
+  options: RevealKeeperOptions
+): Promise<RevealKeeperEvent[]> => {
+  const { provider } = launchpeg
+  const address = launchpeg.address
+  const events: RevealKeeperEvent[] = []
+
+  // Reveals that happened before the keeper started are not reported
+  if (!state[address]) {
+    state[address] = { lastBlock: await provider.getBlockNumber() }
+  }
+  const collectionState = state[address]
+
+  const [canReveal, batchNumber] = await launchpeg.hasBatchToReveal()
+  const useVRF: boolean = await launchpeg.useVRF()
+  if (canReveal) {
+    const tx = await launchpeg.revealNextBatch()
+    const receipt = await tx.wait()
+    if (useVRF) {
+      const { timestamp } = await provider.getBlock(receipt.blockNumber)
+      collectionState.pendingBatch = batchNumber.toNumber()
+      collectionState.pendingSince = timestamp
+      collectionState.stuckReported = false
+      events.push({ type: 'requested', address, batchNumber: batchNumber.toNumber(), transactionHash: tx.hash })
+    }
+  } else if (useVRF && (await launchpeg.vrfRequestedForBatch(batchNumber))) {
+    const { timestamp } = await provider.getBlock('latest')
+    if (collectionState.pendingBatch !== batchNumber.toNumber()) {
+      collectionState.pendingBatch = batchNumber.toNumber()
+      collectionState.pendingSince = timestamp
+      collectionState.stuckReported = false
+    }
+
+    const pendingFor = timestamp - collectionState.pendingSince!
+    if (pendingFor >= options.stuckTimeout) {
+      if (options.forceReveal) {
+        const tx = await launchpeg.forceReveal()
+        await tx.wait()
+        events.push({ type: 'forceRevealed', address, batchNumber: batchNumber.toNumber(), transactionHash: tx.hash })
+      } else if (!collectionState.stuckReported) {
+        collectionState.stuckReported = true
+        events.push({ type: 'stuck', address, batchNumber: batchNumber.toNumber(), pendingFor })
+      }
+    }
+  } else {
+    delete collectionState.pendingBatch
+    delete collectionState.pendingSince
+    delete collectionState.stuckReported
+  }
+
+  const latestBlock = await provider.getBlockNumber()
+  if (latestBlock > collectionState.lastBlock) {
+    const reveals = await launchpeg.queryFilter(launchpeg.filters.Reveal(), collectionState.lastBlock + 1, latestBlock)
+    reveals.forEach(({ args, transactionHash }) =>
+      events.push({
+        type: 'revealed',
+        address,
+        batchNumber: args!.batchNumber.toNumber(),
+        seed: args!.batchSeed.toString(),
+        transactionHash,
+      })
+    )
+    collectionState.lastBlock = latestBlock
+  }
+
+  events.forEach(logEvent)
+  return events
+}
@@ -0,0 +1,144 @@
+import { BigNumberish, Contract, Signer, utils } from 'ethers'
+import fs from 'fs'
+import jsonfile from 'jsonfile'
+
+// Format of the JSON files imported by the Safe Transaction Builder app
+export interface SafeTransaction {
+  to: string
+  value: string
+  data: string
+  contractMethod: null
+  contractInputsValues: null
+}
+
+export interface SafeBatch {
+  version: string
+  chainId: string
+  createdAt: number
+  meta: {
+    name: string
+    description: string
+  }
+  transactions: SafeTransaction[]
+}
+
+/**
+ * Creates an empty batch, overwriting the file if it exists
+ * @param file Path of the batch file
+ * @param chainId Chain the transactions will be executed on
+ * @param name Name displayed in the Transaction Builder
+ */
+export const createSafeBatch = (file: string, chainId: string, name: string) => {
+  const batch: SafeBatch = {
+    version: '1.0',
+    chainId,
+    createdAt: Date.now(),
+    meta: { name, description: '' },
+    transactions: [],
+  }
+  jsonfile.writeFileSync(file, batch, { spaces: 2 })
+}
+
+export const loadSafeBatch = (file: string): SafeBatch => {
+  return jsonfile.readFileSync(file)
+}
+
+// Appends a transaction to a batch, creating it if the file doesn't exist
+const appendToSafeBatch = (file: string, chainId: string, name: string, transaction: SafeTransaction) => {
+  if (!fs.existsSync(file)) {
+    createSafeBatch(file, chainId, name)
+  }
+  const batch = loadSafeBatch(file)
+  if (batch.chainId !== chainId) {
+    throw new Error(`${file} is a batch for chain ${batch.chainId}, not ${chainId}`)
+  }
+  batch.transactions.push(transaction)
+  jsonfile.writeFileSync(file, batch, { spaces: 2 })
+}
+
+/**
+ * Appends a contract call to a batch instead of sending it. The batch is created if the file doesn't exist
+ * @param file Path of the batch file
+ * @param chainId Chain the transactions will be executed on
+ * @param contract Contract to call, only its address and interface are used
+ * @param method Name of the method to call
+ * @param args Arguments of the call
+ * @param value Amount of AVAX sent with the call
+ */
+export const addToSafeBatch = (
+  file: string,
+  chainId: string,
+  contract: Contract,
+  method: string,
+  args: unknown[],
+  value: BigNumberish = 0
+) => {
+  appendToSafeBatch(file, chainId, method, {
+    to: contract.address,
+    value: value.toString(),
+    data: contract.interface.encodeFunctionData(method, args),
+    contractMethod: null,
+    contractInputsValues: null,
+  })
+  console.log(`Added ${method} on ${contract.address} to ${file}`)
+}
+
+/**
+ * Sends every transaction of a batch, in order, from the given signer
+ * @param batch The batch to replay
+ * @param signer Signer standing for the Safe
+ * @returns Hashes of the transactions sent
+ */
+export const replaySafeBatch = async (batch: SafeBatch, signer: Signer): Promise<string[]> => {
+  const hashes: string[] = []
+  for (const transaction of batch.transactions) {
+    const tx = await signer.sendTransaction({ to: transaction.to, value: transaction.value, data: transaction.data })
+    await tx.wait()
+    hashes.push(tx.hash)
+  }
+  return hashes
+}
+
+/**
+ * Predicts the address of the next collection created by the factory, so that the calls configuring it
+ * can be batched with its creation. It only holds if no other collection is created before the batch is executed
+ * @param factory The LaunchpegFactory
+ */
+export const predictNextLaunchpegAddress = async (factory: Contract): Promise<string> => {
+  // Clones are deployed with CREATE, their address only depends on the factory nonce
+  const nonce = await factory.provider.getTransactionCount(factory.address)
+  return utils.getContractAddress({ from: factory.address, nonce })
+}
+
+/**
+ * Checks that a Safe can execute a batch creating a collection. `createLaunchpeg` is `onlyOwner` on the factory, and
+ * the collection is owned by the factory owner, who is the only one able to configure it
+ * @param factory The LaunchpegFactory
+ * @param safe Address of the Safe that will execute the batch
+ */
+export const assertSafeOwnsFactory = async (factory: Contract, safe?: string) => {
+  if (!safe) {
+    throw new Error('--safe is required with --export-safe, it must be the owner of the factory')
+  }
+  const owner = await factory.owner()
+  if (utils.getAddress(owner) !== utils.getAddress(safe)) {
+    throw new Error(`The factory is owned by ${owner}, not by ${safe}: the Safe couldn't execute the batch`)
+  }
+}
+
+/**
+ * Appends a plain AVAX transfer to a batch. The batch is created if the file doesn't exist
+ * @param file Path of the batch file
+ * @param chainId Chain the transactions will be executed on
+ * @param to Recipient of the transfer
+ * @param value Amount of AVAX sent, in wei
+ */
+export const addTransferToSafeBatch = (file: string, chainId: string, to: string, value: BigNumberish) => {
+  appendToSafeBatch(file, chainId, 'Transfers', {
+    to,
+    value: value.toString(),
+    data: '0x',
+    contractMethod: null,
+    contractInputsValues: null,
+  })
+}
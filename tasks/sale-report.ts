@@ -0,0 +1,67 @@
+import '@nomiclabs/hardhat-ethers'
+import 'hardhat-deploy'
+import { constants } from 'ethers'
+import fs from 'fs'
+import path from 'path'
+import { task, types } from 'hardhat/config'
+import { getLaunchpegStatus } from './lens'
+import { formatPhasesCsv, formatSaleReportMarkdown, formatWalletsCsv, summarizeSale } from './sale-summary'
+import { readSaleRecords, SalesStore } from './sales-indexer'
+import { getStatePath, resolveContractAddress } from './utils'
+
+task('sale-report', 'Report the revenue, fees and minters of each phase of a sale, reconciled with the contract')
+  .addParam('contractAddress', 'Address of the collection, or its deployment name such as Launchpeg_<symbol>')
+  .addOptionalParam(
+    'fromBlock',
+    'Block to start indexing from on the first run, defaults to the creation block of the deployment',
+    undefined,
+    types.int
+  )
+  .addOptionalParam('top', 'Number of top wallets to report', 10, types.int)
+  .addOptionalParam('outputDir', 'Directory of the report files, defaults to state/<network>')
+  .setAction(async ({ contractAddress: addressOrName, fromBlock, top, outputDir }, hre) => {
+    const ethers = hre.ethers
+    const contractAddress = await resolveContractAddress(hre, addressOrName)
+
+    // Reads the state first, so that the events indexed afterwards include every mint it accounts for
+    const lens = await ethers.getContractAt('LaunchpegLens', (await hre.deployments.get('LaunchpegLens')).address)
+    const { timestamp, number: blockNumber } = await ethers.provider.getBlock('latest')
+    const blockTag = { blockTag: blockNumber }
+    const status = getLaunchpegStatus(
+      await lens.getLaunchpegData(contractAddress, constants.AddressZero, blockTag),
+      timestamp
+    )
+    const launchpeg = await ethers.getContractAt('Launchpeg', contractAddress)
+    const state = {
+      status,
+      amountMintedByDevs: (await launchpeg.amountMintedByDevs(blockTag)).toNumber(),
+      balance: await ethers.provider.getBalance(contractAddress, blockNumber),
+      joeFeePercent: await launchpeg.joeFeePercent(blockTag),
+    }
+
+    const store: SalesStore = await hre.run('index-sales', { contractAddress, fromBlock, toBlock: blockNumber })
+
+    console.log(`-- Building the report of ${status.name} at block ${blockNumber} --`)
+
+    // The store may have been indexed further by a previous run
+    const records = readSaleRecords(store).filter((record) => record.blockNumber <= blockNumber)
+    const summary = summarizeSale(records, state, top)
+
+    const dir = outputDir ?? path.dirname(getStatePath(hre, 'sale-report'))
+    fs.mkdirSync(dir, { recursive: true })
+    const markdown = formatSaleReportMarkdown(summary, status)
+    const files: [string, string][] = [
+      [`sale-report-${contractAddress}.md`, markdown],
+      [`sale-report-${contractAddress}.csv`, formatPhasesCsv(summary)],
+      [`sale-report-${contractAddress}-wallets.csv`, formatWalletsCsv(summary)],
+    ]
+    files.forEach(([filename, content]) => fs.writeFileSync(path.join(dir, filename), content))
+
+    console.log(markdown)
+    console.log(`-- Report written to ${dir} --`)
+    if (summary.discrepancies.length > 0) {
+      console.log(`-- ${summary.discrepancies.length} discrepancies, see the Reconciliation section --`)
+    }
+
+    return summary
+  })
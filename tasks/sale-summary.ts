@@ -0,0 +1,251 @@
+import { BigNumber, BigNumberish, utils } from 'ethers'
+import { LaunchpegStatus, Phase } from './lens'
+import { SaleRecord } from './sales-indexer'
+import { toCsv } from './utils'
+
+// Must match BaseLaunchpeg.BASIS_POINT_PRECISION
+const BASIS_POINT_PRECISION = 10_000
+
+export type SalePhase = Exclude<Phase, 'NotStarted'> | 'Devs'
+
+export interface PhaseSummary {
+  phase: SalePhase
+  // Number of mint transactions
+  mints: number
+  quantity: number
+  revenue: BigNumber
+  // Average price of one token, rounded down
+  averagePrice: BigNumber
+  uniqueMinters: number
+  // Quantity minted according to the `amountMintedDuring*` or `amountMintedByDevs` counter of the contract
+  counter: number
+}
+
+export interface WalletSummary {
+  address: string
+  quantity: number
+  spent: BigNumber
+}
+
+export interface SaleSummary {
+  phases: PhaseSummary[]
+  quantity: number
+  revenue: BigNumber
+  averagePrice: BigNumber
+  // Buyers of every sale phase, dev mints excluded
+  uniqueMinters: number
+  topWallets: WalletSummary[]
+  joeFeePercent: number
+  // Fees already sent to the fee collector, and fee due on the current balance
+  joeFeePaid: BigNumber
+  joeFeePending: BigNumber
+  withdrawn: BigNumber
+  // Revenue minus withdrawals, to compare with the actual balance
+  expectedBalance: BigNumber
+  balance: BigNumber
+  // Every mismatch between the events and the contract state, empty if the sale reconciles
+  discrepancies: string[]
+}
+
+// On-chain state the events are reconciled against
+export interface SaleState {
+  status: LaunchpegStatus
+  amountMintedByDevs: number
+  balance: BigNumber
+  joeFeePercent: BigNumberish
+}
+
+const average = (revenue: BigNumber, quantity: number): BigNumber =>
+  quantity > 0 ? revenue.div(quantity) : BigNumber.from(0)
+
+/**
+ * Computes the sale analytics of a collection from its indexed records, and reconciles them with its state
+ * @param records Records of the sales indexer, from the creation of the collection
+ * @param state Current state of the collection
+ * @param top Number of wallets to include in the top wallets
+ */
+export const summarizeSale = (records: SaleRecord[], state: SaleState, top: number): SaleSummary => {
+  const { status } = state
+  const salePhases = status.phases.map(({ phase }) => phase as SalePhase)
+  const counters: { [phase: string]: number } = { Devs: state.amountMintedByDevs }
+  status.phases.forEach(({ phase, minted }) => (counters[phase] = minted))
+
+  const phases: { [phase: string]: PhaseSummary & { minters: Set<string> } } = {}
+  for (const phase of [...salePhases, 'Devs' as const]) {
+    phases[phase] = {
+      phase,
+      mints: 0,
+      quantity: 0,
+      revenue: BigNumber.from(0),
+      averagePrice: BigNumber.from(0),
+      uniqueMinters: 0,
+      counter: counters[phase],
+      minters: new Set(),
+    }
+  }
+
+  const wallets: { [address: string]: WalletSummary } = {}
+  let joeFeePaid = BigNumber.from(0)
+  let withdrawn = BigNumber.from(0)
+  const discrepancies: string[] = []
+
+  for (const record of records) {
+    if (record.event === 'Mint' || record.event === 'DevMint') {
+      const phaseName = record.event === 'Mint' ? record.phase : 'Devs'
+      const phase = phases[phaseName]
+      if (!phase) {
+        discrepancies.push(
+          `${record.transactionHash}: mint during ${phaseName}, which isn't a sale phase of ${status.type}`
+        )
+        continue
+      }
+      const spent = record.event === 'Mint' ? BigNumber.from(record.price).mul(record.quantity) : BigNumber.from(0)
+      phase.mints++
+      phase.quantity += record.quantity
+      phase.revenue = phase.revenue.add(spent)
+      phase.minters.add(record.sender)
+
+      if (record.event === 'Mint') {
+        const wallet = (wallets[record.sender] ??= { address: record.sender, quantity: 0, spent: BigNumber.from(0) })
+        wallet.quantity += record.quantity
+        wallet.spent = wallet.spent.add(spent)
+      }
+    } else if (record.event === 'AvaxWithdraw') {
+      joeFeePaid = joeFeePaid.add(record.fee)
+      withdrawn = withdrawn.add(record.amount).add(record.fee)
+    }
+  }
+
+  const phaseSummaries = Object.values(phases).map(({ minters, ...phase }) => ({
+    ...phase,
+    averagePrice: average(phase.revenue, phase.quantity),
+    uniqueMinters: minters.size,
+  }))
+  phaseSummaries.forEach(({ phase, quantity, counter }) => {
+    if (quantity !== counter) {
+      discrepancies.push(`${phase}: ${quantity} minted according to the events, ${counter} according to the contract`)
+    }
+  })
+
+  const quantity = phaseSummaries.reduce((sum, phase) => sum + phase.quantity, 0)
+  if (quantity !== status.totalSupply) {
+    discrepancies.push(`${quantity} minted according to the events, totalSupply is ${status.totalSupply}`)
+  }
+
+  const revenue = phaseSummaries.reduce((sum, phase) => sum.add(phase.revenue), BigNumber.from(0))
+  const expectedBalance = revenue.sub(withdrawn)
+  if (!expectedBalance.eq(state.balance)) {
+    discrepancies.push(
+      `Balance is ${utils.formatEther(state.balance)} AVAX, ` +
+        `${utils.formatEther(expectedBalance)} AVAX expected from the mints and withdrawals`
+    )
+  }
+
+  const topWallets = Object.values(wallets)
+    .sort((a, b) => b.quantity - a.quantity || (b.spent.gt(a.spent) ? 1 : b.spent.lt(a.spent) ? -1 : 0))
+    .slice(0, top)
+
+  return {
+    phases: phaseSummaries,
+    quantity,
+    revenue,
+    averagePrice: average(revenue, quantity - phases.Devs.quantity),
+    uniqueMinters: Object.keys(wallets).length,
+    topWallets,
+    joeFeePercent: BigNumber.from(state.joeFeePercent).toNumber(),
+    joeFeePaid,
+    // Same rounding as withdrawAVAX
+    joeFeePending: state.balance.mul(state.joeFeePercent).div(BASIS_POINT_PRECISION),
+    withdrawn,
+    expectedBalance,
+    balance: state.balance,
+    discrepancies,
+  }
+}
+
+/**
+ * Formats the summary of each phase, and the total, as csv. Amounts are in AVAX
+ * @param summary Sale summary
+ */
+export const formatPhasesCsv = (summary: SaleSummary): string => {
+  const rows = summary.phases.map(({ phase, mints, quantity, revenue, averagePrice, uniqueMinters, counter }) => [
+    phase,
+    mints,
+    quantity,
+    utils.formatEther(revenue),
+    utils.formatEther(averagePrice),
+    uniqueMinters,
+    counter,
+  ])
+  const mints = summary.phases.reduce((sum, phase) => sum + phase.mints, 0)
+  const counter = summary.phases.reduce((sum, phase) => sum + phase.counter, 0)
+  rows.push([
+    'Total',
+    mints,
+    summary.quantity,
+    utils.formatEther(summary.revenue),
+    utils.formatEther(summary.averagePrice),
+    summary.uniqueMinters,
+    counter,
+  ])
+  return toCsv(['phase', 'mints', 'quantity', 'revenue', 'averagePrice', 'uniqueMinters', 'contractCounter'], rows)
+}
+
+/**
+ * Formats the top wallets as csv. Amounts are in AVAX
+ * @param summary Sale summary
+ */
+export const formatWalletsCsv = (summary: SaleSummary): string =>
+  toCsv(
+    ['address', 'quantity', 'spent'],
+    summary.topWallets.map(({ address, quantity, spent }) => [address, quantity, utils.formatEther(spent)])
+  )
+
+/**
+ * Formats the whole report as Markdown
+ * @param summary Sale summary
+ * @param status Status of the collection
+ */
+export const formatSaleReportMarkdown = (summary: SaleSummary, status: LaunchpegStatus): string => {
+  const avax = (amount: BigNumber) => `${utils.formatEther(amount)} AVAX`
+  const lines = [
+    `# Sale report: ${status.name} (${status.symbol})`,
+    '',
+    `${status.type} at \`${status.address}\`, ${status.totalSupply} / ${status.collectionSize} minted.`,
+    '',
+    '## Phases',
+    '',
+    '| Phase | Mints | Quantity | Revenue | Average price | Unique minters | Contract counter |',
+    '| --- | ---: | ---: | ---: | ---: | ---: | ---: |',
+    ...summary.phases.map(
+      ({ phase, mints, quantity, revenue, averagePrice, uniqueMinters, counter }) =>
+        `| ${phase} | ${mints} | ${quantity} | ${avax(revenue)} | ${avax(
+          averagePrice
+        )} | ${uniqueMinters} | ${counter} |`
+    ),
+    '',
+    `Total revenue: ${avax(summary.revenue)}, average price ${avax(summary.averagePrice)} over the sale phases, ` +
+      `${summary.uniqueMinters} unique minters.`,
+    '',
+    '## Fees and balance',
+    '',
+    `- Joe fee: ${summary.joeFeePercent / 100}%`,
+    `- Joe fee paid: ${avax(summary.joeFeePaid)}`,
+    `- Joe fee due on the current balance: ${avax(summary.joeFeePending)}`,
+    `- Withdrawn, fees included: ${avax(summary.withdrawn)}`,
+    `- Balance: ${avax(summary.balance)} (expected ${avax(summary.expectedBalance)})`,
+    '',
+    '## Top wallets',
+    '',
+    '| Address | Quantity | Spent |',
+    '| --- | ---: | ---: |',
+    ...summary.topWallets.map(({ address, quantity, spent }) => `| \`${address}\` | ${quantity} | ${avax(spent)} |`),
+    '',
+    '## Reconciliation',
+    '',
+    ...(summary.discrepancies.length > 0
+      ? summary.discrepancies.map((discrepancy) => `- ${discrepancy}`)
+      : ['The events match the contract counters and balance.']),
+  ]
+  return lines.join('\n') + '\n'
+}
@@ -0,0 +1,244 @@
+import { Contract, providers } from 'ethers'
+import fs from 'fs'
+import jsonfile from 'jsonfile'
+import path from 'path'
+import { Phase, PHASES } from './lens'
+
+export const INDEXED_EVENTS = ['Mint', 'DevMint', 'Reveal', 'AvaxWithdraw', 'AllowlistSeeded', 'Transfer'] as const
+
+export type IndexedEvent = (typeof INDEXED_EVENTS)[number]
+
+export type LaunchpegContractType = 'Launchpeg' | 'FlatLaunchpeg'
+
+// Fields shared by every record. Amounts of AVAX are strings in wei, as they may not fit in a JS number
+interface BaseSaleRecord {
+  event: IndexedEvent
+  blockNumber: number
+  blockTimestamp: number
+  transactionHash: string
+  logIndex: number
+}
+
+export interface MintRecord extends BaseSaleRecord {
+  event: 'Mint'
+  sender: string
+  quantity: number
+  // Price of one token
+  price: string
+  startTokenId: number
+  // FlatLaunchpeg doesn't emit the phase, it's derived from the block timestamp
+  phase: Phase
+}
+
+export interface DevMintRecord extends BaseSaleRecord {
+  event: 'DevMint'
+  sender: string
+  quantity: number
+}
+
+export interface RevealRecord extends BaseSaleRecord {
+  event: 'Reveal'
+  batchNumber: number
+  batchSeed: string
+}
+
+export interface AvaxWithdrawRecord extends BaseSaleRecord {
+  event: 'AvaxWithdraw'
+  sender: string
+  amount: string
+  fee: string
+}
+
+export interface AllowlistSeededRecord extends BaseSaleRecord {
+  event: 'AllowlistSeeded'
+}
+
+export interface TransferRecord extends BaseSaleRecord {
+  event: 'Transfer'
+  from: string
+  to: string
+  tokenId: number
+}
+
+export type SaleRecord =
+  | MintRecord
+  | DevMintRecord
+  | RevealRecord
+  | AvaxWithdrawRecord
+  | AllowlistSeededRecord
+  | TransferRecord
+
+export interface IndexerCheckpoint {
+  address: string
+  type: LaunchpegContractType
+  // First block indexed, and last block whose records are all in the store
+  fromBlock: number
+  lastBlock: number
+}
+
+// Records are appended to `records.jsonl`, one JSON object per line, and `checkpoint.json` is only written once
+// every record up to its `lastBlock` has been appended
+export interface SalesStore {
+  dir: string
+  recordsPath: string
+  checkpointPath: string
+}
+
+export interface IndexSalesOptions {
+  // Used on the first run only, later runs start after the checkpoint
+  fromBlock: number
+  toBlock: number
+  // Number of blocks fetched per `eth_getLogs` call
+  blockRange: number
+}
+
+/**
+ * Returns the files of the store of a collection, creating its directory if needed
+ * @param dir Directory of the store
+ */
+export const getSalesStore = (dir: string): SalesStore => {
+  fs.mkdirSync(dir, { recursive: true })
+  return {
+    dir,
+    recordsPath: path.join(dir, 'records.jsonl'),
+    checkpointPath: path.join(dir, 'checkpoint.json'),
+  }
+}
+
+export const loadCheckpoint = (store: SalesStore): IndexerCheckpoint | undefined => {
+  return fs.existsSync(store.checkpointPath) ? jsonfile.readFileSync(store.checkpointPath) : undefined
+}
+
+const saveCheckpoint = (store: SalesStore, checkpoint: IndexerCheckpoint) => {
+  jsonfile.writeFileSync(`${store.checkpointPath}.tmp`, checkpoint, { spaces: 2 })
+  fs.renameSync(`${store.checkpointPath}.tmp`, store.checkpointPath)
+}
+
+/**
+ * Reads every record of a store, in chain order
+ * @param store Store of the collection
+ */
+export const readSaleRecords = (store: SalesStore): SaleRecord[] => {
+  if (!fs.existsSync(store.recordsPath)) {
+    return []
+  }
+  return fs
+    .readFileSync(store.recordsPath, 'utf8')
+    .split('\n')
+    .filter((line) => line !== '')
+    .map((line) => JSON.parse(line))
+}
+
+// Drops the records appended by an interrupted run after the last checkpoint, so that they aren't duplicated
+const dropUncheckpointedRecords = (store: SalesStore, lastBlock: number) => {
+  const records = readSaleRecords(store)
+  const kept = records.filter(({ blockNumber }) => blockNumber <= lastBlock)
+  if (kept.length < records.length) {
+    console.log(`Dropping ${records.length - kept.length} records of an interrupted run`)
+    fs.writeFileSync(store.recordsPath, kept.map((record) => JSON.stringify(record) + '\n').join(''))
+  }
+}
+
+const toRecord = (
+  type: LaunchpegContractType,
+  launchpeg: Contract,
+  log: providers.Log,
+  blockTimestamp: number,
+  publicSaleStartTime: number
+): SaleRecord => {
+  const { name, args } = launchpeg.interface.parseLog(log)
+  const base = {
+    blockNumber: log.blockNumber,
+    blockTimestamp,
+    transactionHash: log.transactionHash,
+    logIndex: log.logIndex,
+  }
+  switch (name as IndexedEvent) {
+    case 'Mint':
+      return {
+        event: 'Mint',
+        ...base,
+        sender: args.sender,
+        quantity: args.quantity.toNumber(),
+        price: args.price.toString(),
+        startTokenId: (type === 'Launchpeg' ? args.startTokenId : args.tokenId).toNumber(),
+        phase:
+          type === 'Launchpeg' ? PHASES[args.phase] : blockTimestamp < publicSaleStartTime ? 'Allowlist' : 'PublicSale',
+      }
+    case 'DevMint':
+      return { event: 'DevMint', ...base, sender: args.sender, quantity: args.quantity.toNumber() }
+    case 'Reveal':
+      return {
+        event: 'Reveal',
+        ...base,
+        batchNumber: args.batchNumber.toNumber(),
+        batchSeed: args.batchSeed.toString(),
+      }
+    case 'AvaxWithdraw':
+      return {
+        event: 'AvaxWithdraw',
+        ...base,
+        sender: args.sender,
+        amount: args.amount.toString(),
+        fee: args.fee.toString(),
+      }
+    case 'AllowlistSeeded':
+      return { event: 'AllowlistSeeded', ...base }
+    case 'Transfer':
+      return { event: 'Transfer', ...base, from: args.from, to: args.to, tokenId: args.tokenId.toNumber() }
+  }
+  throw new Error(`Unexpected ${name} event in transaction ${log.transactionHash}`)
+}
+
+/**
+ * Indexes the sale events of a collection, from the block after the checkpoint up to `toBlock`. The checkpoint is
+ * saved after each block range, so an interrupted run resumes where it stopped
+ * @param launchpeg Launchpeg or FlatLaunchpeg, with the ABI of its type
+ * @param type Type of the collection
+ * @param store Store of the collection
+ * @param options Blocks to index
+ * @returns Number of records added
+ */
+export const indexSales = async (
+  launchpeg: Contract,
+  type: LaunchpegContractType,
+  store: SalesStore,
+  options: IndexSalesOptions
+): Promise<number> => {
+  let checkpoint = loadCheckpoint(store)
+  if (checkpoint) {
+    if (checkpoint.address.toLowerCase() !== launchpeg.address.toLowerCase()) {
+      throw new Error(`${store.dir} is the store of ${checkpoint.address}, not ${launchpeg.address}`)
+    }
+    dropUncheckpointedRecords(store, checkpoint.lastBlock)
+  } else {
+    dropUncheckpointedRecords(store, options.fromBlock - 1)
+    checkpoint = { address: launchpeg.address, type, fromBlock: options.fromBlock, lastBlock: options.fromBlock - 1 }
+  }
+
+  const topics = INDEXED_EVENTS.map((name) => launchpeg.interface.getEventTopic(name))
+  const publicSaleStartTime = (await launchpeg.publicSaleStartTime()).toNumber()
+
+  let added = 0
+  for (let fromBlock = checkpoint.lastBlock + 1; fromBlock <= options.toBlock; fromBlock += options.blockRange) {
+    const toBlock = Math.min(fromBlock + options.blockRange - 1, options.toBlock)
+    const logs = await launchpeg.provider.getLogs({ address: launchpeg.address, topics: [topics], fromBlock, toBlock })
+
+    const timestamps: { [blockNumber: number]: number } = {}
+    for (const { blockNumber } of logs) {
+      if (timestamps[blockNumber] === undefined) {
+        timestamps[blockNumber] = (await launchpeg.provider.getBlock(blockNumber)).timestamp
+      }
+    }
+    const records = logs.map((log) => toRecord(type, launchpeg, log, timestamps[log.blockNumber], publicSaleStartTime))
+    fs.appendFileSync(store.recordsPath, records.map((record) => JSON.stringify(record) + '\n').join(''))
+
+    checkpoint.lastBlock = toBlock
+    saveCheckpoint(store, checkpoint)
+    added += records.length
+    if (records.length > 0) {
+      console.log(`Blocks ${fromBlock} to ${toBlock}: ${records.length} records`)
+    }
+  }
+  return added
+}
@@ -1,31 +1,52 @@
 import '@nomiclabs/hardhat-ethers'
 import { task } from 'hardhat/config'
-
-const CONTROLLER = new Map()
-CONTROLLER.set('43113', '0x2eD832Ba664535e5886b75D64C46EB9a228C2610')
-CONTROLLER.set('43114', '0xd5D517aBE5cF79B7e95eC98dB0f0277788aFF634')
+import { getVRFSettings, resolveKeyHash } from './networks'
+import { addToSafeBatch } from './safe-batch'
+import { resolveContractAddress } from './utils'
 
 task('set-VRF', 'Turns VRF on')
-  .addParam('contractAddress')
-  .addParam('keyHash')
+  .addParam('contractAddress', 'Address of the collection, or its deployment name such as Launchpeg_<symbol>')
+  .addOptionalParam('keyHash', 'Key hash or gas lane name, defaults to the default gas lane of the network')
   .addParam('subscriptionId')
-  .addParam('maxGasLimit')
-  .setAction(async ({ contractAddress, keyHash, subscriptionId, maxGasLimit }, hre) => {
+  .addOptionalParam('maxGasLimit', 'Callback gas limit, defaults to the one of the network')
+  .addOptionalParam('exportSafe', 'Append the transactions to this Safe batch file instead of sending them')
+  .setAction(async ({ contractAddress: addressOrName, keyHash, subscriptionId, maxGasLimit, exportSafe }, hre) => {
     const ethers = hre.ethers
+    const contractAddress = await resolveContractAddress(hre, addressOrName)
     const chainId = await hre.getChainId()
 
+    const vrf = getVRFSettings(hre.network.name)
+    const vrfKeyHash = resolveKeyHash(vrf, keyHash)
+    const callbackGasLimit = maxGasLimit ?? vrf.callbackGasLimit
+    if (Number(callbackGasLimit) > vrf.maxCallbackGasLimit) {
+      throw new Error(`maxGasLimit (${callbackGasLimit}) is above the coordinator limit of ${vrf.maxCallbackGasLimit}`)
+    }
+
     console.log('-- Adding Launchpeg as consumer --')
 
-    const controller = await ethers.getContractAt('VRFCoordinatorV2Mock', CONTROLLER.get(chainId))
+    const controller = await ethers.getContractAt('VRFCoordinatorV2Mock', vrf.coordinator)
+    const launchpeg = await ethers.getContractAt('Launchpeg', contractAddress)
+
+    if (exportSafe) {
+      addToSafeBatch(exportSafe, chainId, controller, 'addConsumer', [subscriptionId, contractAddress])
+      addToSafeBatch(exportSafe, chainId, launchpeg, 'setVRF', [
+        vrf.coordinator,
+        vrfKeyHash,
+        subscriptionId,
+        callbackGasLimit,
+      ])
+      return []
+    }
 
     const tx1 = await controller.addConsumer(subscriptionId, contractAddress)
     await tx1.wait()
 
     console.log('-- Calling setVRF --')
-    const launchpeg = await ethers.getContractAt('Launchpeg', contractAddress)
 
-    const tx2 = await launchpeg.setVRF(CONTROLLER.get(chainId), keyHash, subscriptionId, maxGasLimit)
+    const tx2 = await launchpeg.setVRF(vrf.coordinator, vrfKeyHash, subscriptionId, callbackGasLimit)
     await tx2.wait()
 
     console.log('-- VRF configured --')
+
+    return [tx1.hash, tx2.hash]
   })
@@ -1,16 +1,27 @@
 import '@nomiclabs/hardhat-ethers'
 import { task } from 'hardhat/config'
+import { addToSafeBatch } from './safe-batch'
+import { resolveContractAddress } from './utils'
 
 task('set-uris', 'Configure the unrevealed and base URI')
-  .addParam('contractAddress')
+  .addParam('contractAddress', 'Address of the collection, or its deployment name such as Launchpeg_<symbol>')
   .addParam('unrevealedURI')
   .addParam('baseURI')
-  .setAction(async ({ contractAddress, unrevealedURI, baseURI }, hre) => {
+  .addOptionalParam('exportSafe', 'Append the transactions to this Safe batch file instead of sending them')
+  .setAction(async ({ contractAddress: addressOrName, unrevealedURI, baseURI, exportSafe }, hre) => {
     const ethers = hre.ethers
+    const contractAddress = await resolveContractAddress(hre, addressOrName)
 
     console.log('-- Configuring URIs --')
     const launchpeg = await ethers.getContractAt('Launchpeg', contractAddress)
 
+    if (exportSafe) {
+      const chainId = await hre.getChainId()
+      addToSafeBatch(exportSafe, chainId, launchpeg, 'setUnrevealedURI', [unrevealedURI])
+      addToSafeBatch(exportSafe, chainId, launchpeg, 'setBaseURI', [baseURI])
+      return []
+    }
+
     const unrevealedURItx = await launchpeg.setUnrevealedURI(unrevealedURI)
     await unrevealedURItx.wait()
 
@@ -18,4 +29,6 @@ task('set-uris', 'Configure the unrevealed and base URI')
     await baseURItx.wait()
 
     console.log('-- URIs configured --')
+
+    return [unrevealedURItx.hash, baseURItx.hash]
   })
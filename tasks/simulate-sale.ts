@@ -0,0 +1,281 @@
+import '@nomiclabs/hardhat-ethers'
+import { BigNumber, ContractTransaction, Wallet } from 'ethers'
+import jsonfile from 'jsonfile'
+import { task, types } from 'hardhat/config'
+import { LOCAL_NETWORKS } from './networks'
+import {
+  createRandom,
+  getActionTotals,
+  getSimulationKeys,
+  SimulatedAction,
+  SimulatedTransaction,
+  SimulatedWallet,
+  SimulationSummary,
+} from './simulation'
+import { getLaunchpegContract, getStatePath, resolveContractAddress } from './utils'
+
+// Every account used by the simulation is given this balance
+const FUNDS = '1000'
+// Probability that a batch is revealed after a mint, when it can be
+const REVEAL_PROBABILITY = 0.5
+// Probability that an allowlisted wallet uses its spots
+const ALLOWLIST_USAGE = 0.7
+const ALLOWLIST_CHUNK_SIZE = 200
+// The public sale has no end, its mints are spread over this duration
+const PUBLIC_SALE_DURATION = 86_400
+
+type SaleMint = 'auctionMint' | 'allowlistMint' | 'publicSaleMint'
+
+task('simulate-sale', 'Drive a sale with random wallets on a local network, to get a realistic sale state')
+  .addParam('contractAddress', 'Address of the collection, or its deployment name such as Launchpeg_<symbol>')
+  .addOptionalParam('wallets', 'Number of wallets to create', 100, types.int)
+  .addOptionalParam('allowlistRatio', 'Share of the wallets seeded in the allowlist', 0.3, types.float)
+  .addOptionalParam('sellThrough', 'Share of the allocation of each phase to mint', 0.8, types.float)
+  .addOptionalParam('seed', 'Seed of the random distribution, the same seed replays the same sale', 1, types.int)
+  .addOptionalParam('output', 'Summary file, defaults to state/<network>/simulation-<address>.json')
+  .setAction(
+    async (
+      { contractAddress: addressOrName, wallets: walletCount, allowlistRatio, sellThrough, seed, output },
+      hre
+    ): Promise<SimulationSummary> => {
+      const ethers = hre.ethers
+      const provider = ethers.provider
+
+      if (!LOCAL_NETWORKS.includes(hre.network.name)) {
+        throw new Error(`Sales can only be simulated on a local network, not ${hre.network.name}`)
+      }
+      for (const [name, ratio] of Object.entries({ allowlistRatio, sellThrough })) {
+        if (ratio < 0 || ratio > 1) {
+          throw new Error(`${name} must be between 0 and 1, got ${ratio}`)
+        }
+      }
+
+      const contractAddress = await resolveContractAddress(hre, addressOrName)
+      const { type, launchpeg } = await getLaunchpegContract(hre, contractAddress)
+      const random = createRandom(seed)
+
+      const request = (method: string, params: unknown[]) => hre.network.provider.request({ method, params })
+      const fund = (address: string) =>
+        request('hardhat_setBalance', [
+          address,
+          ethers.utils.hexStripZeros(ethers.utils.parseEther(FUNDS).toHexString()),
+        ])
+      const getTimestamp = async () => (await provider.getBlock('latest')).timestamp
+      const advanceTo = async (timestamp: number) => {
+        const now = await getTimestamp()
+        if (timestamp > now) {
+          await request('evm_increaseTime', [timestamp - now])
+          await request('evm_mine', [])
+        }
+      }
+      // The owner and the project owner are impersonated, whoever they are
+      const impersonate = async (address: string) => {
+        await request('hardhat_impersonateAccount', [address])
+        await fund(address)
+        return ethers.getSigner(address)
+      }
+
+      const [auctionStart, allowlistStart, publicSaleStart] = await Promise.all([
+        type === 'Launchpeg' ? launchpeg.auctionSaleStartTime() : BigNumber.from(0),
+        launchpeg.allowlistStartTime(),
+        launchpeg.publicSaleStartTime(),
+      ])
+      if (allowlistStart.isZero() || publicSaleStart.isZero()) {
+        throw new Error(`The phases of ${contractAddress} aren't initialized`)
+      }
+      const windows: { phase: SaleMint; start: number; end: number }[] = [
+        { phase: 'allowlistMint', start: allowlistStart.toNumber(), end: publicSaleStart.toNumber() },
+        {
+          phase: 'publicSaleMint',
+          start: publicSaleStart.toNumber(),
+          end: publicSaleStart.toNumber() + PUBLIC_SALE_DURATION,
+        },
+      ]
+      if (type === 'Launchpeg') {
+        windows.unshift({ phase: 'auctionMint', start: auctionStart.toNumber(), end: allowlistStart.toNumber() })
+      }
+
+      const maxPerAddress = (await launchpeg.maxPerAddressDuringMint()).toNumber()
+      const maxBatchSize = (await launchpeg.maxBatchSize()).toNumber()
+      const collectionSize = (await launchpeg.collectionSize()).toNumber()
+      const amountForDevs = (await launchpeg.amountForDevs()).toNumber()
+
+      console.log(`-- Funding ${walletCount} wallets --`)
+      const wallets: SimulatedWallet[] = []
+      const signers = new Map<string, Wallet>()
+      for (const privateKey of getSimulationKeys(seed, walletCount)) {
+        const signer = new ethers.Wallet(privateKey, provider)
+        await fund(signer.address)
+        // Mints of a previous simulation with the same seed count against the limit per address
+        const minted = (await launchpeg.numberMinted(signer.address)).toNumber()
+        wallets.push({ address: signer.address, privateKey, allowlistSpots: 0, minted })
+        signers.set(signer.address, signer)
+      }
+      const connect = (address: string) => launchpeg.connect(signers.get(address) as Wallet)
+
+      const transactions: SimulatedTransaction[] = []
+      const mintTopics = ['Mint', 'DevMint'].map((name) => launchpeg.interface.getEventTopic(name))
+      // Quantities and prices are read from the events, the auction price depends on the block
+      const record = async (action: SimulatedAction, wallet: string, tx: ContractTransaction, quantity = 0) => {
+        const receipt = await tx.wait()
+        let price = BigNumber.from(0)
+        for (const log of receipt.logs) {
+          if (log.address.toLowerCase() === contractAddress.toLowerCase() && mintTopics.includes(log.topics[0])) {
+            const { args } = launchpeg.interface.parseLog(log)
+            quantity = args.quantity.toNumber()
+            price = args.price ?? price
+          }
+        }
+        const { timestamp } = await provider.getBlock(receipt.blockNumber)
+        transactions.push({
+          action,
+          wallet,
+          quantity,
+          price: price.toString(),
+          timestamp,
+          transactionHash: receipt.transactionHash,
+        })
+        return quantity
+      }
+
+      const maybeReveal = async () => {
+        const [canReveal] = await launchpeg.hasBatchToReveal()
+        if (canReveal && random.chance(REVEAL_PROBABILITY)) {
+          const { address } = wallets[random.int(0, wallets.length - 1)]
+          await record('revealNextBatch', address, await connect(address).revealNextBatch())
+        }
+      }
+
+      const getPrice = async (phase: SaleMint): Promise<BigNumber> => {
+        if (phase === 'auctionMint') {
+          // The price at the next block can only be lower, the difference is refunded
+          return launchpeg.getAuctionPrice(auctionStart)
+        }
+        if (type === 'FlatLaunchpeg') {
+          return phase === 'allowlistMint' ? launchpeg.allowlistPrice() : launchpeg.salePrice()
+        }
+        return phase === 'allowlistMint' ? launchpeg.getAllowlistPrice() : launchpeg.getPublicSalePrice()
+      }
+
+      // Wallets and quantities of the mints of a phase, given the state of the collection at its start
+      const planMints = async (phase: SaleMint): Promise<{ wallet: SimulatedWallet; quantity: number }[]> => {
+        const totalSupply = (await launchpeg.totalSupply()).toNumber()
+        const amountMintedByDevs = (await launchpeg.amountMintedByDevs()).toNumber()
+        const devsLeft = amountForDevs - amountMintedByDevs
+        let available: number
+        let candidates: SimulatedWallet[]
+        if (phase === 'auctionMint') {
+          available = (await launchpeg.amountForAuction()).toNumber() + amountMintedByDevs - totalSupply
+          candidates = wallets
+        } else if (phase === 'allowlistMint') {
+          available =
+            (await launchpeg.amountForAllowlist()).toNumber() -
+            (await launchpeg.amountMintedDuringAllowlist()).toNumber()
+          candidates = wallets.filter(({ allowlistSpots }) => allowlistSpots > 0 && random.chance(ALLOWLIST_USAGE))
+        } else {
+          available = collectionSize - devsLeft - totalSupply
+          candidates = wallets
+        }
+
+        let left = Math.floor(available * sellThrough)
+        const mints: { wallet: SimulatedWallet; quantity: number }[] = []
+        for (const wallet of random.shuffle(candidates)) {
+          const capacity = phase === 'allowlistMint' ? wallet.allowlistSpots : maxPerAddress - wallet.minted
+          if (left <= 0) {
+            break
+          }
+          if (capacity > 0) {
+            const quantity = Math.min(random.int(1, capacity), left)
+            mints.push({ wallet, quantity })
+            left -= quantity
+          }
+        }
+        if (left > 0 && phase !== 'allowlistMint') {
+          console.log(`Not enough wallets for the ${phase} target, ${left} tokens left unminted`)
+        }
+        return mints
+      }
+
+      const now = await getTimestamp()
+      const openWindows = windows.filter(({ end }) => end > now)
+      if (openWindows.length === 0) {
+        throw new Error(`The sale of ${contractAddress} is over, there is nothing to simulate`)
+      }
+
+      if (openWindows.some(({ phase }) => phase === 'allowlistMint') && allowlistRatio > 0) {
+        const allowlisted = random.shuffle(wallets).slice(0, Math.floor(walletCount * allowlistRatio))
+        allowlisted.forEach((wallet) => (wallet.allowlistSpots = random.int(1, maxPerAddress)))
+        console.log(`-- Seeding ${allowlisted.length} wallets in the allowlist --`)
+        const owner = await impersonate(await launchpeg.owner())
+        for (let i = 0; i < allowlisted.length; i += ALLOWLIST_CHUNK_SIZE) {
+          const chunk = allowlisted.slice(i, i + ALLOWLIST_CHUNK_SIZE)
+          const tx = await launchpeg.connect(owner).seedAllowlist(
+            chunk.map(({ address }) => address),
+            chunk.map(({ allowlistSpots }) => allowlistSpots)
+          )
+          const spots = chunk.reduce((total, { allowlistSpots }) => total + allowlistSpots, 0)
+          await record('seedAllowlist', owner.address, tx, spots)
+        }
+      }
+
+      // The devs mint at the start of a random phase, a random share of their reserve
+      const devMintPhase = openWindows[random.int(0, openWindows.length - 1)].phase
+      const devBatches = Math.floor((amountForDevs - (await launchpeg.amountMintedByDevs()).toNumber()) / maxBatchSize)
+
+      for (const { phase, start, end } of openWindows) {
+        await advanceTo(start)
+        console.log(`-- Simulating ${phase} --`)
+
+        if (phase === devMintPhase && devBatches > 0) {
+          const projectOwner = await impersonate(await launchpeg.projectOwner())
+          const quantity = random.int(1, devBatches) * maxBatchSize
+          await record('devMint', projectOwner.address, await launchpeg.connect(projectOwner).devMint(quantity))
+          await maybeReveal()
+        }
+
+        const mints = await planMints(phase)
+        const from = await getTimestamp()
+        // Blocks are mined for every transaction, the last second is kept for them
+        const times = mints.map(() => random.int(from, Math.max(from, end - 2))).sort((a, b) => a - b)
+        for (let i = 0; i < mints.length; i++) {
+          await advanceTo(times[i])
+          if ((await getTimestamp()) >= end - 1) {
+            console.log(`${phase} ended with ${mints.length - i} mints left`)
+            break
+          }
+          const { wallet, quantity } = mints[i]
+          const price = await getPrice(phase)
+          const tx = await connect(wallet.address)[phase](quantity, { value: price.mul(quantity) })
+          const minted = await record(phase, wallet.address, tx)
+          wallet.minted += minted
+          if (phase === 'allowlistMint') {
+            wallet.allowlistSpots -= minted
+          }
+          await maybeReveal()
+        }
+      }
+
+      const summary: SimulationSummary = {
+        contract: contractAddress,
+        type,
+        seed,
+        wallets,
+        transactions,
+        totals: getActionTotals(transactions),
+        totalSupply: (await launchpeg.totalSupply()).toNumber(),
+        lastTokenRevealed: (await launchpeg.lastTokenRevealed()).toNumber(),
+      }
+
+      const outputPath = output ?? getStatePath(hre, `simulation-${contractAddress}.json`)
+      jsonfile.writeFileSync(outputPath, summary, { spaces: 2 })
+
+      for (const [action, { transactions: count, quantity, paid }] of Object.entries(summary.totals)) {
+        const paidAvax = ethers.utils.formatEther(paid)
+        console.log(`  ${action.padEnd(16)} ${count} transaction(s), quantity ${quantity}, paid ${paidAvax} AVAX`)
+      }
+      console.log(`Supply ${summary.totalSupply}/${collectionSize}, ${summary.lastTokenRevealed} tokens revealed`)
+      console.log(`-- Simulation written to ${outputPath} --`)
+
+      return summary
+    }
+  )
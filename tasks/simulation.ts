@@ -0,0 +1,114 @@
+import { BigNumber, utils } from 'ethers'
+
+export type SimulatedAction =
+  | 'seedAllowlist'
+  | 'auctionMint'
+  | 'allowlistMint'
+  | 'publicSaleMint'
+  | 'devMint'
+  | 'revealNextBatch'
+
+export interface SimulatedTransaction {
+  action: SimulatedAction
+  wallet: string
+  quantity: number
+  // Price of one token, in wei
+  price: string
+  timestamp: number
+  transactionHash: string
+}
+
+export interface SimulatedWallet {
+  address: string
+  // The wallets are throwaway local accounts, their keys are kept to replay actions from the frontend
+  privateKey: string
+  allowlistSpots: number
+  minted: number
+}
+
+export interface ActionTotal {
+  transactions: number
+  quantity: number
+  // In wei
+  paid: string
+}
+
+export interface SimulationSummary {
+  contract: string
+  type: 'Launchpeg' | 'FlatLaunchpeg'
+  seed: number
+  wallets: SimulatedWallet[]
+  transactions: SimulatedTransaction[]
+  totals: { [action in SimulatedAction]?: ActionTotal }
+  totalSupply: number
+  lastTokenRevealed: number
+}
+
+export interface Random {
+  // Uniform in [0, 1)
+  next: () => number
+  // Uniform integer in [min, max]
+  int: (min: number, max: number) => number
+  chance: (probability: number) => boolean
+  shuffle: <T>(items: T[]) => T[]
+}
+
+/**
+ * Returns a seeded pseudo-random generator (mulberry32), so that a simulation can be replayed
+ * @param seed 32-bit seed
+ */
+export const createRandom = (seed: number): Random => {
+  let state = seed >>> 0
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4_294_967_296
+  }
+  const int = (min: number, max: number) => min + Math.floor(next() * (max - min + 1))
+  return {
+    next,
+    int,
+    chance: (probability) => next() < probability,
+    shuffle: (items) => {
+      const shuffled = [...items]
+      for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = int(0, i)
+        const item = shuffled[i]
+        shuffled[i] = shuffled[j]
+        shuffled[j] = item
+      }
+      return shuffled
+    },
+  }
+}
+
+/**
+ * Derives the private keys of the simulated wallets from the seed, so that a replay uses the same wallets
+ * @param seed Seed of the simulation
+ * @param count Number of wallets
+ */
+export const getSimulationKeys = (seed: number, count: number): string[] => {
+  return Array.from({ length: count }, (_, i) =>
+    utils.keccak256(utils.defaultAbiCoder.encode(['string', 'uint256', 'uint256'], ['simulate-sale', seed, i]))
+  )
+}
+
+/**
+ * Sums up the transactions of a simulation by action
+ * @param transactions Transactions sent by the simulation
+ */
+export const getActionTotals = (
+  transactions: SimulatedTransaction[]
+): { [action in SimulatedAction]?: ActionTotal } => {
+  const totals: { [action in SimulatedAction]?: ActionTotal } = {}
+  for (const { action, quantity, price } of transactions) {
+    const total = totals[action] ?? { transactions: 0, quantity: 0, paid: '0' }
+    total.transactions++
+    total.quantity += quantity
+    total.paid = BigNumber.from(total.paid).add(BigNumber.from(price).mul(quantity)).toString()
+    totals[action] = total
+  }
+  return totals
+}
@@ -0,0 +1,84 @@
+import '@nomiclabs/hardhat-ethers'
+import { utils } from 'ethers'
+import fs from 'fs'
+import { task, types } from 'hardhat/config'
+import { getHolders } from './holders'
+import { readSaleRecords, SalesStore, TransferRecord } from './sales-indexer'
+import { getStatePath, resolveContractAddress, toCsv } from './utils'
+
+task('snapshot-holders', 'Write the holders of a collection at a given block, as an allowlist csv')
+  .addParam('address', 'Address of the collection, or its deployment name such as Launchpeg_<symbol>')
+  .addOptionalParam('block', 'Snapshot block, defaults to the latest one', undefined, types.int)
+  .addOptionalParam(
+    'fromBlock',
+    'Block to start indexing from on the first run, defaults to the creation block of the deployment',
+    undefined,
+    types.int
+  )
+  .addFlag('excludeContracts', 'Exclude holders that are contracts, such as marketplaces or multisigs')
+  .addFlag('excludeTeam', 'Exclude the owner, the project owner and the fee collector of the collection')
+  .addOptionalParam('exclude', 'Comma separated addresses to exclude')
+  .addOptionalParam(
+    'perHolder',
+    'Allowlist spots per holder, defaults to the number of tokens held',
+    undefined,
+    types.int
+  )
+  .addOptionalParam('output', 'Output csv, defaults to state/<network>/holders-<address>-<block>.csv')
+  .setAction(
+    async (
+      { address: addressOrName, block, fromBlock, excludeContracts, excludeTeam, exclude, perHolder, output },
+      hre
+    ) => {
+      const ethers = hre.ethers
+      const contractAddress = await resolveContractAddress(hre, addressOrName)
+      const launchpeg = await ethers.getContractAt('Launchpeg', contractAddress)
+      const blockNumber: number = block ?? (await ethers.provider.getBlockNumber())
+      const blockTag = { blockTag: blockNumber }
+
+      const excluded = new Set<string>(
+        exclude ? exclude.split(',').map((address: string) => utils.getAddress(address.trim())) : []
+      )
+      if (excludeTeam) {
+        excluded.add(await launchpeg.owner(blockTag))
+        excluded.add(await launchpeg.projectOwner(blockTag))
+        excluded.add(await launchpeg.joeFeeCollector(blockTag))
+      }
+
+      // Transfer events tell which tokens changed owner, so that the ownership is only read where it changes
+      const store: SalesStore = await hre.run('index-sales', {
+        contractAddress,
+        fromBlock,
+        toBlock: blockNumber,
+      })
+      const transfers = readSaleRecords(store).filter(
+        (record): record is TransferRecord => record.event === 'Transfer' && record.blockNumber <= blockNumber
+      )
+
+      console.log(`-- Reading the holders of ${contractAddress} at block ${blockNumber} --`)
+
+      const holders = []
+      for (const holder of await getHolders(launchpeg, transfers, blockNumber)) {
+        if (excluded.has(holder.address)) {
+          console.log(`Excluding ${holder.address} (${holder.tokenIds.length} tokens)`)
+          continue
+        }
+        if (excludeContracts && (await ethers.provider.getCode(holder.address, blockNumber)) !== '0x') {
+          console.log(`Excluding contract ${holder.address} (${holder.tokenIds.length} tokens)`)
+          continue
+        }
+        holders.push(holder)
+      }
+      holders.sort((a, b) => b.tokenIds.length - a.tokenIds.length)
+
+      // Same columns as the allowlist csv read by configure-allowlist, which ignores the extra tokenIds column
+      const rows = holders.map(({ address, tokenIds }) => [address, perHolder ?? tokenIds.length, tokenIds.join(' ')])
+      const outputPath = output ?? getStatePath(hre, `holders-${contractAddress}-${blockNumber}.csv`)
+      fs.writeFileSync(outputPath, toCsv(['address', 'amount', 'tokenIds'], rows))
+
+      const tokens = holders.reduce((sum, { tokenIds }) => sum + tokenIds.length, 0)
+      console.log(`-- ${holders.length} holders of ${tokens} tokens written to ${outputPath} --`)
+
+      return holders
+    }
+  )
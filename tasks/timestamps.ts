@@ -0,0 +1,233 @@
+import { BaseLaunchConfig, isLaunchConfig } from './launch-config'
+
+// Every config field holding a timestamp, in the order the sale goes through them
+export const TIME_FIELDS = [
+  'auctionSaleStartTime',
+  'allowlistStartTime',
+  'publicSaleStartTime',
+  'batchRevealStart',
+  'revealStartTime',
+] as const
+
+export type TimeField = (typeof TIME_FIELDS)[number]
+
+const DURATION_UNITS: { [unit: string]: number } = {
+  s: 1,
+  m: 60,
+  h: 3_600,
+  d: 86_400,
+  w: 604_800,
+}
+
+const DURATION_REGEX = /^(\d+[smhdw])+$/
+const ISO_DATE_REGEX = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/
+const TIMESTAMP_REGEX = /^\d+$/
+
+/**
+ * Converts a duration such as `30m` or `1d12h` to seconds
+ * @param duration Duration expression
+ * @returns Number of seconds
+ */
+export const parseDuration = (duration: string): number => {
+  if (!DURATION_REGEX.test(duration)) {
+    throw new Error(`Invalid duration "${duration}", expected e.g. 30s, 10m, 2h, 1d, 1w or 1d12h`)
+  }
+  const partRegex = /(\d+)([smhdw])/g
+  let seconds = 0
+  let part: RegExpExecArray | null
+  while ((part = partRegex.exec(duration)) !== null) {
+    seconds += parseInt(part[1]) * DURATION_UNITS[part[2]]
+  }
+  return seconds
+}
+
+/**
+ * Resolves a single time expression. Supported forms are:
+ * - a unix timestamp: `1650060142`
+ * - an ISO-8601 datetime with a time zone: `2022-04-15T22:00:00Z`, `2022-04-16T00:00:00+02:00`
+ * - `now`, optionally followed by offsets: `now+30m`, or just `+2h`
+ * - another time field, optionally followed by offsets: `auctionSaleStartTime + 1d`
+ * @param expression The expression to resolve
+ * @param now The current timestamp in seconds
+ * @param resolveField Callback resolving a reference to another time field
+ * @returns The resolved unix timestamp in seconds
+ */
+export const resolveTimeExpression = (
+  expression: string | number,
+  now: number,
+  resolveField: (field: TimeField) => number
+): number => {
+  const input = String(expression).trim()
+  if (TIMESTAMP_REGEX.test(input)) {
+    return parseInt(input)
+  }
+  if (ISO_DATE_REGEX.test(input)) {
+    const date = Date.parse(input)
+    if (isNaN(date)) {
+      throw new Error(`Invalid date "${input}"`)
+    }
+    return Math.floor(date / 1000)
+  }
+  if (/^\d{4}-\d{2}-\d{2}/.test(input)) {
+    throw new Error(`Invalid date "${input}", ISO-8601 dates must include a time zone e.g. 2022-04-15T22:00:00Z`)
+  }
+
+  // `base (+|-) duration (+|-) duration ...`, the base defaults to `now`
+  const [base, ...offsets] = input.replace(/\s+/g, '').split(/(?=[+-])/)
+  let timestamp: number
+  if (base.startsWith('+') || base.startsWith('-')) {
+    timestamp = now
+    offsets.unshift(base)
+  } else if (base === 'now') {
+    timestamp = now
+  } else if ((TIME_FIELDS as readonly string[]).includes(base)) {
+    timestamp = resolveField(base as TimeField)
+  } else if (TIMESTAMP_REGEX.test(base)) {
+    timestamp = parseInt(base)
+  } else {
+    const fields = TIME_FIELDS.join(', ')
+    throw new Error(
+      `Unknown time expression "${input}", expected a timestamp, an ISO-8601 date, "now", or one of ${fields}`
+    )
+  }
+
+  for (const offset of offsets) {
+    const seconds = parseDuration(offset.slice(1))
+    timestamp = offset.startsWith('+') ? timestamp + seconds : timestamp - seconds
+  }
+  return timestamp
+}
+
+// The legacy `Soon` keyword, kept for existing configs
+const legacySoonExpression = (launchConfig: BaseLaunchConfig, field: TimeField): string => {
+  if (isLaunchConfig(launchConfig)) {
+    switch (field) {
+      case 'auctionSaleStartTime':
+        return 'now+2m'
+      case 'allowlistStartTime':
+        return `auctionSaleStartTime+${Number(launchConfig.auctionDropInterval) * 5}s`
+      case 'publicSaleStartTime':
+        return 'allowlistStartTime+2m'
+    }
+  } else {
+    switch (field) {
+      case 'allowlistStartTime':
+        return 'now+2m'
+      case 'publicSaleStartTime':
+        return 'allowlistStartTime+2m'
+    }
+  }
+  throw new Error(`"Soon" is not supported for ${field}`)
+}
+
+/**
+ * Replaces every time expression of the config by its unix timestamp
+ * Fields can reference each other as long as there is no cycle
+ * @param launchConfig The raw config
+ * @param now The current timestamp in seconds
+ * @returns The config, with all time fields converted to numbers
+ */
+export const resolveTimestamps = <T extends BaseLaunchConfig>(launchConfig: T, now: number): T => {
+  const config = launchConfig as unknown as Record<string, string | number | undefined>
+  const resolved = new Map<TimeField, number>()
+  const resolving: TimeField[] = []
+
+  const resolveField = (field: TimeField): number => {
+    const cached = resolved.get(field)
+    if (cached !== undefined) {
+      return cached
+    }
+    if (resolving.includes(field)) {
+      throw new Error(`Circular time reference: ${[...resolving, field].join(' -> ')}`)
+    }
+    const expression = config[field]
+    if (expression === undefined) {
+      throw new Error(`${resolving[resolving.length - 1]} references ${field}, which is not set`)
+    }
+
+    resolving.push(field)
+    let timestamp: number
+    try {
+      timestamp = resolveTimeExpression(
+        expression === 'Soon' ? legacySoonExpression(launchConfig, field) : expression,
+        now,
+        resolveField
+      )
+    } catch (err) {
+      // Errors from referenced fields are already prefixed
+      if ((err as Error).message.startsWith("Can't resolve")) {
+        throw err
+      }
+      throw new Error(`Can't resolve ${field} ("${expression}"): ${(err as Error).message}`)
+    }
+    resolving.pop()
+
+    resolved.set(field, timestamp)
+    return timestamp
+  }
+
+  for (const field of TIME_FIELDS) {
+    if (config[field] !== undefined) {
+      config[field] = resolveField(field)
+    }
+  }
+
+  return launchConfig
+}
+
+/**
+ * Formats a timestamp in UTC, e.g. `2022-04-15 22:00:00 UTC`
+ * @param timestamp Unix timestamp in seconds
+ */
+export const formatTimestamp = (timestamp: number): string => {
+  return new Date(timestamp * 1000)
+    .toISOString()
+    .replace('T', ' ')
+    .replace(/\.\d+Z$/, ' UTC')
+}
+
+/**
+ * Formats a duration in a human readable way, e.g. `1d 2h 3m 4s`
+ * @param seconds Duration in seconds
+ */
+export const formatDuration = (seconds: number): string => {
+  const parts: string[] = []
+  let remaining = Math.abs(seconds)
+  for (const [unit, size] of [
+    ['d', 86_400],
+    ['h', 3_600],
+    ['m', 60],
+  ] as const) {
+    if (remaining >= size) {
+      parts.push(`${Math.floor(remaining / size)}${unit}`)
+      remaining %= size
+    }
+  }
+  if (remaining > 0 || parts.length === 0) {
+    parts.push(`${remaining}s`)
+  }
+  return parts.join(' ')
+}
+
+/**
+ * Prints the resolved sale schedule
+ * @param launchConfig The config, with resolved timestamps
+ * @param now The current timestamp in seconds
+ */
+export const printSchedule = (launchConfig: BaseLaunchConfig, now: number) => {
+  const config = launchConfig as unknown as Record<string, number | undefined>
+  console.log('-- Schedule --')
+  for (const field of TIME_FIELDS) {
+    const timestamp = config[field]
+    if (timestamp === undefined) {
+      continue
+    }
+    if (timestamp === 0) {
+      console.log(`  ${field.padEnd(22)} not set (0)`)
+      continue
+    }
+    const delta = timestamp - now
+    const relative = delta >= 0 ? `in ${formatDuration(delta)}` : `${formatDuration(delta)} ago`
+    console.log(`  ${field.padEnd(22)} ${formatTimestamp(timestamp)} (${timestamp}, ${relative})`)
+  }
+}
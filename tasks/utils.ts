@@ -1,34 +1,195 @@
+import { Contract, providers, utils } from 'ethers'
 import fs from 'fs'
 import path from 'path'
+import readline from 'readline'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import { BaseLaunchConfig } from './launch-config'
+import { LOCAL_NETWORKS } from './networks'
+import { resolveTimestamps } from './timestamps'
 
-export const loadLaunchConfig = (filename: string) => {
-  const file = path.join(__dirname, `config/${filename}`)
-  const launchConfig = JSON.parse(fs.readFileSync(file, 'utf8'))
-  return convertTimestampIfNeeded(launchConfig)
-}
-
-// This is used for testing purposes
-const convertTimestampIfNeeded = (launchConfig: any) => {
-  if (launchConfig.auctionSaleStartTime) {
-    // Launchpeg
-    if (launchConfig.auctionSaleStartTime === 'Soon') {
-      launchConfig.auctionSaleStartTime = Math.floor(Date.now() / 1000) + 120
-    }
-    if (launchConfig.allowlistStartTime === 'Soon') {
-      launchConfig.allowlistStartTime = launchConfig.auctionSaleStartTime + launchConfig.auctionDropInterval * 5
-    }
-    if (launchConfig.publicSaleStartTime === 'Soon') {
-      launchConfig.publicSaleStartTime = launchConfig.allowlistStartTime + 120
-    }
-  } else {
-    // FlatLaunchpeg
-    if (launchConfig.allowlistStartTime === 'Soon') {
-      launchConfig.allowlistStartTime = Math.floor(Date.now() / 1000) + 120
-    }
-    if (launchConfig.publicSaleStartTime === 'Soon') {
-      launchConfig.publicSaleStartTime = launchConfig.allowlistStartTime + 120
-    }
-  }
-
-  return launchConfig
+/**
+ * Returns the path of a config file
+ * @param filename Config file path, relative to `tasks/config`
+ */
+export const getLaunchConfigPath = (filename: string): string => {
+  return path.join(__dirname, `config/${filename}`)
+}
+
+/**
+ * Loads a config from `tasks/config` and resolves its time expressions
+ * @param filename Config file path, relative to `tasks/config`
+ * @param now Timestamp used to resolve relative expressions, defaults to the system clock
+ */
+export const loadLaunchConfig = <T extends BaseLaunchConfig>(
+  filename: string,
+  now: number = Math.floor(Date.now() / 1000)
+): T => {
+  const launchConfig = JSON.parse(fs.readFileSync(getLaunchConfigPath(filename), 'utf8'))
+  return resolveTimestamps<T>(launchConfig, now)
+}
+
+/**
+ * Returns the path of a file used to persist the state of a task between runs, under `state/<network>`
+ * @param hre Hardhat runtime environment
+ * @param filename Name of the state file
+ */
+export const getStatePath = (hre: HardhatRuntimeEnvironment, filename: string): string => {
+  const dir = path.join(hre.config.paths.root, 'state', hre.network.name)
+  fs.mkdirSync(dir, { recursive: true })
+  return path.join(dir, filename)
+}
+
+/**
+ * Returns the address of the collection created in a factory transaction, from its `LaunchpegCreated` or
+ * `FlatLaunchpegCreated` event
+ * @param factory The LaunchpegFactory
+ * @param receipt Receipt of a `createLaunchpeg` or `createFlatLaunchpeg` transaction
+ */
+export const getCreatedLaunchpegAddress = (factory: Contract, receipt: providers.TransactionReceipt): string => {
+  const topics = ['LaunchpegCreated', 'FlatLaunchpegCreated'].map((name) => factory.interface.getEventTopic(name))
+  const log = receipt.logs.find(
+    ({ address, topics: [topic] }) => address.toLowerCase() === factory.address.toLowerCase() && topics.includes(topic)
+  )
+  if (log) {
+    return factory.interface.parseLog(log).args[0]
+  }
+  throw new Error(`No LaunchpegCreated or FlatLaunchpegCreated event in transaction ${receipt.transactionHash}`)
+}
+
+/**
+ * Saves a collection created by the factory as a hardhat-deploy artifact, so that it can be retrieved by name
+ * @param hre Hardhat runtime environment
+ * @param contractName `Launchpeg` or `FlatLaunchpeg`
+ * @param symbol Symbol of the collection, the artifact is named `<contractName>_<symbol>`
+ * @param address Address of the collection
+ * @param receipt Receipt of the creation transaction
+ * @returns Name of the artifact
+ */
+export const saveLaunchpegDeployment = async (
+  hre: HardhatRuntimeEnvironment,
+  contractName: string,
+  symbol: string,
+  address: string,
+  receipt: providers.TransactionReceipt
+): Promise<string> => {
+  const name = `${contractName}_${symbol}`
+  const previous = await hre.deployments.getOrNull(name)
+  if (previous && previous.address !== address) {
+    console.log(`Overwriting ${name}, it was deployed at ${previous.address}`)
+  }
+  const { abi } = await hre.deployments.getExtendedArtifact(contractName)
+  await hre.deployments.save(name, { address, abi, transactionHash: receipt.transactionHash, receipt })
+  return name
+}
+
+/**
+ * Returns the block a contract was created in, from the receipt of its saved deployment
+ * @param hre Hardhat runtime environment
+ * @param address Address of the contract
+ * @returns The creation block, undefined when no deployment of the network has this address
+ */
+export const getCreationBlock = async (
+  hre: HardhatRuntimeEnvironment,
+  address: string
+): Promise<number | undefined> => {
+  const deployment = Object.values(await hre.deployments.all()).find(
+    (deployment) => utils.getAddress(deployment.address) === utils.getAddress(address)
+  )
+  if (deployment?.receipt) {
+    return deployment.receipt.blockNumber
+  }
+  if (deployment?.transactionHash) {
+    return (await hre.ethers.provider.getTransactionReceipt(deployment.transactionHash)).blockNumber
+  }
+  return undefined
+}
+
+/**
+ * Resolves a `--from-block` parameter, which defaults to the creation block of the saved deployment. Local networks
+ * are scanned from the genesis block, elsewhere the parameter is required when the contract has no deployment
+ * @param hre Hardhat runtime environment
+ * @param address Address of the contract
+ * @param fromBlock Value of the parameter, if any
+ */
+export const resolveFromBlock = async (
+  hre: HardhatRuntimeEnvironment,
+  address: string,
+  fromBlock?: number
+): Promise<number> => {
+  if (fromBlock !== undefined) {
+    return fromBlock
+  }
+  const creationBlock = await getCreationBlock(hre, address)
+  if (creationBlock !== undefined) {
+    return creationBlock
+  }
+  if (LOCAL_NETWORKS.includes(hre.network.name)) {
+    return 0
+  }
+  throw new Error(`No deployment of ${address} saved on ${hre.network.name}, pass its creation block as --from-block`)
+}
+
+/**
+ * Resolves a `--contract-address` parameter, which can be either an address or the name of a saved deployment
+ * such as `Launchpeg_<symbol>`
+ * @param hre Hardhat runtime environment
+ * @param addressOrName Address or deployment name
+ * @returns The checksummed address, so that it can be compared with `===` and used in file names
+ */
+export const resolveContractAddress = async (
+  hre: HardhatRuntimeEnvironment,
+  addressOrName: string
+): Promise<string> => {
+  if (utils.isAddress(addressOrName)) {
+    return utils.getAddress(addressOrName)
+  }
+  const deployment = await hre.deployments.getOrNull(addressOrName)
+  if (!deployment) {
+    throw new Error(`${addressOrName} is neither an address nor a deployment on ${hre.network.name}`)
+  }
+  return utils.getAddress(deployment.address)
+}
+
+/**
+ * Returns a collection with the ABI of its type. Only Launchpeg has a dutch auction, so `auctionSaleStartTime()`
+ * reverts on a FlatLaunchpeg
+ * @param hre Hardhat runtime environment
+ * @param address Address of the collection
+ */
+export const getLaunchpegContract = async (
+  hre: HardhatRuntimeEnvironment,
+  address: string
+): Promise<{ type: 'Launchpeg' | 'FlatLaunchpeg'; launchpeg: Contract }> => {
+  const launchpeg = await hre.ethers.getContractAt('Launchpeg', address)
+  try {
+    await launchpeg.auctionSaleStartTime()
+    return { type: 'Launchpeg', launchpeg }
+  } catch {
+    return { type: 'FlatLaunchpeg', launchpeg: await hre.ethers.getContractAt('FlatLaunchpeg', address) }
+  }
+}
+
+/**
+ * Formats rows as csv, quoting the cells that need it
+ * @param header Name of the columns
+ * @param rows Values of each row, in the order of the header
+ */
+export const toCsv = (header: string[], rows: (string | number | boolean)[][]): string => {
+  const formatCell = (cell: string | number | boolean) => {
+    const value = String(cell)
+    return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+  }
+  return [header, ...rows].map((row) => row.map(formatCell).join(',')).join('\n') + '\n'
+}
+
+/**
+ * Asks a yes/no question on the terminal
+ * @param question Question to display, ` [y/N] ` is appended
+ * @returns True if the answer is y or yes
+ */
+export const confirm = async (question: string): Promise<boolean> => {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout })
+  const answer = await new Promise<string>((resolve) => rl.question(`${question} [y/N] `, resolve))
+  rl.close()
+  return ['y', 'yes'].includes(answer.trim().toLowerCase())
 }
@@ -0,0 +1,65 @@
+import '@nomiclabs/hardhat-ethers'
+import 'hardhat-deploy'
+import { task } from 'hardhat/config'
+import { LOCAL_NETWORKS } from './networks'
+import { parseDuration } from './timestamps'
+
+task('vrf-local-fulfill', 'Answer every random words request made to the local VRF coordinator mock')
+  .addOptionalParam('interval', 'Time between two checks, e.g. 1s or 1m', '2s')
+  .addFlag('once', 'Answer the pending requests and exit')
+  .setAction(async ({ interval, once }, hre) => {
+    const ethers = hre.ethers
+
+    if (!LOCAL_NETWORKS.includes(hre.network.name)) {
+      throw new Error(`The VRF mock can only be used on a local network, not ${hre.network.name}`)
+    }
+    const deployment = await hre.deployments.getOrNull('VRFCoordinatorV2Mock')
+    if (!deployment) {
+      throw new Error(`No VRFCoordinatorV2Mock deployed on ${hre.network.name}, run vrf-local-setup first`)
+    }
+    const coordinator = await ethers.getContractAt('VRFCoordinatorV2Mock', deployment.address)
+    const intervalMs = parseDuration(interval) * 1000
+
+    // Requests answered before the watcher started
+    const fulfilled = new Set<string>()
+    const fulfilledEvents = await coordinator.queryFilter(coordinator.filters.RandomWordsFulfilled(), 0)
+    fulfilledEvents.forEach(({ args }) => fulfilled.add(args!.requestId.toString()))
+
+    console.log(`-- Watching requests made to ${coordinator.address} --`)
+
+    // Requests waiting for an answer, request id => consumer
+    const pending = new Map<string, string>()
+    let fromBlock = 0
+    let fulfilledCount = 0
+    for (;;) {
+      const latestBlock = await ethers.provider.getBlockNumber()
+      const requests = await coordinator.queryFilter(coordinator.filters.RandomWordsRequested(), fromBlock, latestBlock)
+      requests
+        .filter(({ args }) => !fulfilled.has(args!.requestId.toString()))
+        .forEach(({ args }) => pending.set(args!.requestId.toString(), args!.sender))
+      fromBlock = latestBlock + 1
+
+      for (const [requestId, consumer] of pending) {
+        try {
+          const tx = await coordinator.fulfillRandomWords(requestId, consumer)
+          const receipt = await tx.wait()
+          const { success } = receipt.events.find(
+            ({ event }: { event?: string }) => event === 'RandomWordsFulfilled'
+          ).args
+          pending.delete(requestId)
+          fulfilledCount++
+
+          const result = success ? 'fulfilled' : 'fulfilled but the callback reverted'
+          console.log(`Request ${requestId} of ${consumer} ${result} (${tx.hash})`)
+        } catch (err) {
+          // e.g. the subscription ran out of LINK, the request is retried on the next check
+          console.log(`Request ${requestId} of ${consumer} failed: ${err instanceof Error ? err.message : err}`)
+        }
+      }
+
+      if (once) {
+        return fulfilledCount
+      }
+      await new Promise((resolve) => setTimeout(resolve, intervalMs))
+    }
+  })
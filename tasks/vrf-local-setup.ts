@@ -0,0 +1,71 @@
+import '@nomiclabs/hardhat-ethers'
+import 'hardhat-deploy'
+import { task } from 'hardhat/config'
+import { LOCAL_NETWORKS } from './networks'
+import { resolveContractAddress } from './utils'
+
+// Fees charged by the mock, in LINK wei: 0.1 LINK per request plus 1 gwei of LINK per gas unit of the callback
+const BASE_FEE = '100000000000000000'
+const GAS_PRICE_LINK = '1000000000'
+
+task('vrf-local-setup', 'Deploy a VRF coordinator mock and turn VRF on for a collection, on a local network')
+  .addParam('contractAddress', 'Address of the collection, or its deployment name such as Launchpeg_<symbol>')
+  .addOptionalParam('subscriptionId', 'Use this subscription of the mock instead of creating one')
+  .addOptionalParam('fund', 'Amount of LINK added to the subscription', '100')
+  .addOptionalParam('keyHash', 'Key hash registered on the mock', '0x' + '11'.repeat(32))
+  .addOptionalParam('maxGasLimit', 'Callback gas limit', '200000')
+  .setAction(async ({ contractAddress: addressOrName, subscriptionId, fund, keyHash, maxGasLimit }, hre) => {
+    const ethers = hre.ethers
+
+    if (!LOCAL_NETWORKS.includes(hre.network.name)) {
+      throw new Error(`The VRF mock can only be used on a local network, not ${hre.network.name}`)
+    }
+    const contractAddress = await resolveContractAddress(hre, addressOrName)
+    const { deployer } = await hre.getNamedAccounts()
+
+    console.log('-- Deploying VRFCoordinatorV2Mock --')
+
+    // Reused when already deployed on this network
+    const deployment = await hre.deployments.deploy('VRFCoordinatorV2Mock', {
+      from: deployer,
+      args: [BASE_FEE, GAS_PRICE_LINK],
+      log: true,
+    })
+    const coordinator = await ethers.getContractAt('VRFCoordinatorV2Mock', deployment.address)
+
+    if (!subscriptionId) {
+      const tx = await coordinator.createSubscription()
+      const receipt = await tx.wait()
+      subscriptionId = receipt.events.find(({ event }: { event?: string }) => event === 'SubscriptionCreated').args
+        .subId
+      console.log(`Subscription ${subscriptionId} created`)
+    }
+
+    const fundTx = await coordinator.fundSubscription(subscriptionId, ethers.utils.parseEther(fund))
+    await fundTx.wait()
+    console.log(`Subscription ${subscriptionId} funded with ${fund} LINK`)
+
+    const [, , keyHashes]: [number, number, string[]] = await coordinator.getRequestConfig()
+    if (!keyHashes.includes(keyHash)) {
+      const tx = await coordinator.addKeyHash(keyHash)
+      await tx.wait()
+      console.log(`Key hash ${keyHash} registered`)
+    }
+
+    const { consumersList }: { consumersList: string[] } = await coordinator.getSubscription(subscriptionId)
+    if (!consumersList.includes(contractAddress)) {
+      const tx = await coordinator.addConsumer(subscriptionId, contractAddress)
+      await tx.wait()
+      console.log(`${contractAddress} added as consumer`)
+    }
+
+    console.log('-- Calling setVRF --')
+
+    const launchpeg = await ethers.getContractAt('Launchpeg', contractAddress)
+    const tx = await launchpeg.setVRF(coordinator.address, keyHash, subscriptionId, maxGasLimit)
+    await tx.wait()
+
+    console.log(`-- VRF configured, run vrf-local-fulfill to answer the requests of ${contractAddress} --`)
+
+    return { coordinator: coordinator.address, subscriptionId: subscriptionId.toString() }
+  })
@@ -0,0 +1,145 @@
+import '@nomiclabs/hardhat-ethers'
+import 'hardhat-deploy'
+import { BigNumber, Contract, utils } from 'ethers'
+import fs from 'fs'
+import { task } from 'hardhat/config'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import { confirm, getStatePath, resolveContractAddress } from './utils'
+
+// Must match BaseLaunchpeg.BASIS_POINT_PRECISION
+const BASIS_POINT_PRECISION = 10_000
+
+// Line of the payout ledger, amounts in wei
+export interface PayoutLedgerEntry {
+  collection: string
+  to: string
+  amount: string
+  fee: string
+  feeCollector: string
+  transactionHash: string
+  blockNumber: number
+  timestamp: number
+}
+
+interface WithdrawPreview {
+  launchpeg: Contract
+  balance: BigNumber
+  fee: BigNumber
+  feeCollector: string
+}
+
+const previewWithdraw = async (launchpeg: Contract): Promise<WithdrawPreview> => {
+  const balance = await launchpeg.provider.getBalance(launchpeg.address)
+  const joeFeePercent: BigNumber = await launchpeg.joeFeePercent()
+  const feeCollector: string = await launchpeg.joeFeeCollector()
+  // Same rounding as withdrawAVAX
+  const fee = balance.mul(joeFeePercent).div(BASIS_POINT_PRECISION)
+
+  const name = await launchpeg.name()
+  const feePercent = (joeFeePercent.toNumber() / 100).toFixed(2)
+  console.log(`${name} (${launchpeg.address}): ${utils.formatEther(balance)} AVAX`)
+  console.log(`  Fee ${feePercent}% to ${feeCollector}: ${utils.formatEther(fee)} AVAX`)
+  console.log(`  Net: ${utils.formatEther(balance.sub(fee))} AVAX`)
+
+  return { launchpeg, balance, fee, feeCollector }
+}
+
+// Returns the collections of the factory whose owner is `owner`
+const getOwnedCollections = async (hre: HardhatRuntimeEnvironment, owner: string): Promise<Contract[]> => {
+  const ethers = hre.ethers
+  const factory = await ethers.getContractAt(
+    'LaunchpegFactory',
+    (
+      await hre.deployments.get('LaunchpegFactory')
+    ).address
+  )
+
+  const collections: Contract[] = []
+  for (const type of [0, 1]) {
+    const numLaunchpegs = (await factory.numLaunchpegs(type)).toNumber()
+    for (let i = 0; i < numLaunchpegs; i++) {
+      const launchpeg = await ethers.getContractAt('Launchpeg', await factory.allLaunchpegs(type, i))
+      if ((await launchpeg.owner()) === owner) {
+        collections.push(launchpeg)
+      }
+    }
+  }
+  return collections
+}
+
+task('withdraw', 'Withdraw the AVAX of a collection, after previewing the Joe fee')
+  .addOptionalParam('address', 'Address of the collection, or its deployment name such as Launchpeg_<symbol>')
+  .addFlag('all', 'Withdraw from every collection of the factory owned by the signer')
+  .addOptionalParam('to', 'Recipient of the AVAX, defaults to the signer')
+  .addFlag('yes', 'Skip the confirmation')
+  .setAction(async ({ address, all, to, yes }, hre) => {
+    const ethers = hre.ethers
+
+    if (Boolean(address) === all) {
+      throw new Error('Either --address or --all must be given')
+    }
+
+    const [signer] = await ethers.getSigners()
+    const recipient = to ? utils.getAddress(to) : signer.address
+
+    const launchpegs = all
+      ? await getOwnedCollections(hre, signer.address)
+      : [await ethers.getContractAt('Launchpeg', await resolveContractAddress(hre, address))]
+
+    console.log('-- Withdraw preview --')
+
+    const previews: WithdrawPreview[] = []
+    for (const launchpeg of launchpegs) {
+      const preview = await previewWithdraw(launchpeg)
+      if (preview.balance.isZero()) {
+        console.log('  Nothing to withdraw')
+      } else {
+        previews.push(preview)
+      }
+    }
+
+    if (previews.length === 0) {
+      console.log('-- Nothing to withdraw --')
+      return []
+    }
+
+    const total = previews.reduce((sum, { balance }) => sum.add(balance), BigNumber.from(0))
+    const totalFee = previews.reduce((sum, { fee }) => sum.add(fee), BigNumber.from(0))
+    const totalNet = utils.formatEther(total.sub(totalFee))
+    console.log(`Total: ${totalNet} AVAX to ${recipient}, ${utils.formatEther(totalFee)} AVAX of fees`)
+    // Mints happening in the meantime are withdrawn too, the ledger records the amounts actually sent
+    if (!yes && !(await confirm(`Withdraw from ${previews.length} collection(s)?`))) {
+      console.log('-- Withdraw cancelled --')
+      return []
+    }
+
+    const entries: PayoutLedgerEntry[] = []
+    for (const { launchpeg, feeCollector } of previews) {
+      const tx = await launchpeg.withdrawAVAX(recipient)
+      const receipt = await tx.wait()
+
+      const event = receipt.events.find(({ event }: { event?: string }) => event === 'AvaxWithdraw')
+      const { timestamp } = await ethers.provider.getBlock(receipt.blockNumber)
+      const entry: PayoutLedgerEntry = {
+        collection: launchpeg.address,
+        to: event.args.sender,
+        amount: event.args.amount.toString(),
+        fee: event.args.fee.toString(),
+        feeCollector,
+        transactionHash: tx.hash,
+        blockNumber: receipt.blockNumber,
+        timestamp,
+      }
+
+      const ledgerPath = getStatePath(hre, `payouts-${launchpeg.address}.jsonl`)
+      fs.appendFileSync(ledgerPath, JSON.stringify(entry) + '\n')
+
+      const amount = utils.formatEther(event.args.amount)
+      const fee = utils.formatEther(event.args.fee)
+      console.log(`${launchpeg.address}: ${amount} AVAX withdrawn, ${fee} AVAX of fee (${tx.hash})`)
+      entries.push(entry)
+    }
+
+    console.log('-- Withdraw completed --')
+    return entries
+  })
@@ -0,0 +1,128 @@
+import { expect } from 'chai'
+import { constants } from 'ethers'
+import { AllowlistRecord, lintAllowlist, lintAllowlistAllocation } from '../tasks/allowlist'
+
+describe('Allowlist', () => {
+  const alice = '0x5B38Da6a701c568545dCfcB03FcB875f56beddC4'
+  const bob = '0xAb8483F64d9C6d1EcF9b849Ae677dD3315835cb2'
+
+  // The header is line 1
+  const toRecords = (rows: string[][]): AllowlistRecord[] => rows.map((cells, i) => ({ line: i + 2, cells }))
+
+  describe('lintAllowlist', () => {
+    it('Should resolve a valid allowlist', () => {
+      expect(
+        lintAllowlist(
+          toRecords([
+            [alice, '2'],
+            [` ${bob} `, ' 1 '],
+          ])
+        )
+      ).to.eql({
+        rows: [
+          { address: alice, amount: 2 },
+          { address: bob, amount: 1 },
+        ],
+        errors: [],
+        warnings: [],
+      })
+    })
+
+    it('Should reject invalid and wrongly checksummed addresses', () => {
+      const wrongChecksum = alice.replace('ddC4', 'ddc4')
+      const { rows, errors } = lintAllowlist(
+        toRecords([
+          ['0x1234', '1'],
+          [wrongChecksum, '1'],
+          ['', '1'],
+        ])
+      )
+      expect(rows).to.be.empty
+      expect(errors).to.eql([
+        'line 2: invalid address "0x1234"',
+        `line 3: wrong checksum for address "${wrongChecksum}"`,
+        'line 4: invalid address ""',
+      ])
+    })
+
+    it('Should warn about lowercase addresses', () => {
+      const { rows, errors, warnings } = lintAllowlist(toRecords([[alice.toLowerCase(), '1']]))
+      expect(rows).to.eql([{ address: alice, amount: 1 }])
+      expect(errors).to.be.empty
+      expect(warnings).to.eql([`line 2: ${alice.toLowerCase()} is not checksummed, expected ${alice}`])
+    })
+
+    it('Should reject the zero address', () => {
+      const { rows, errors } = lintAllowlist(toRecords([[constants.AddressZero, '1']]))
+      expect(rows).to.be.empty
+      expect(errors).to.eql(['line 2: zero address'])
+    })
+
+    it('Should reject non-integer amounts and warn about zero amounts', () => {
+      const { rows, errors, warnings } = lintAllowlist(toRecords([[alice, '1.5'], [bob, '-1'], [alice], [bob, '0']]))
+      expect(rows).to.eql([{ address: bob, amount: 0 }])
+      expect(errors).to.eql([
+        `line 2: amount for ${alice} must be a non-negative integer, got "1.5"`,
+        `line 3: amount for ${bob} must be a non-negative integer, got "-1"`,
+        `line 4: amount for ${alice} must be a non-negative integer, got ""`,
+      ])
+      expect(warnings).to.eql([`line 5: ${bob} gets 0 allowlist spot`])
+    })
+
+    describe('Duplicates', () => {
+      const records = toRecords([
+        [alice, '2'],
+        [bob, '1'],
+        [alice, '3'],
+      ])
+
+      it('Should reject duplicates without a policy', () => {
+        const { errors } = lintAllowlist(records)
+        expect(errors).to.eql([`${alice} appears on lines 2, 4, use the merge or last duplicate policy`])
+      })
+
+      it('Should add up the amounts with the merge policy', () => {
+        const { rows, errors, warnings } = lintAllowlist(records, 'merge')
+        expect(rows).to.eql([
+          { address: alice, amount: 5 },
+          { address: bob, amount: 1 },
+        ])
+        expect(errors).to.be.empty
+        expect(warnings).to.eql([`${alice} appears on lines 2, 4, amounts merged to 5`])
+      })
+
+      it('Should keep the last amount with the last policy', () => {
+        const { rows, errors, warnings } = lintAllowlist(records, 'last')
+        expect(rows).to.eql([
+          { address: alice, amount: 3 },
+          { address: bob, amount: 1 },
+        ])
+        expect(errors).to.be.empty
+        expect(warnings).to.eql([`${alice} appears on lines 2, 4, keeping the last amount 3`])
+      })
+    })
+  })
+
+  describe('lintAllowlistAllocation', () => {
+    it('Should accept spots up to the allocation', () => {
+      expect(lintAllowlistAllocation(20, 20)).to.eql({ errors: [], warnings: [] })
+      expect(lintAllowlistAllocation(0, 0)).to.eql({ errors: [], warnings: [] })
+    })
+
+    it('Should warn about an oversubscribed allocation', () => {
+      expect(lintAllowlistAllocation(25, 20)).to.eql({
+        errors: [],
+        warnings: [
+          '25 spots for an allocation of 20 (25.0% oversubscribed), allowlist mints will fail once the allocation is minted',
+        ],
+      })
+    })
+
+    it('Should reject any spot when the allocation is 0', () => {
+      expect(lintAllowlistAllocation(3, 0)).to.eql({
+        errors: ['3 spots for an allocation of 0, every allowlist mint would fail'],
+        warnings: [],
+      })
+    })
+  })
+})
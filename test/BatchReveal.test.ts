@@ -0,0 +1,142 @@
+import { ethers, network } from 'hardhat'
+import { expect } from 'chai'
+import { advanceBlockTo } from './utils/time'
+import { initializePhasesLaunchpeg, getDefaultLaunchpegConfig, Phase, LaunchpegConfig } from './utils/helpers'
+import { ContractFactory, Contract, BigNumber } from 'ethers'
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
+import { getRevealedSeeds, getRevealMap, getShuffledTokenId } from '../tasks/batch-reveal'
+import { createRandom } from '../tasks/simulation'
+
+// Seed of the pseudo-random reveals, printed on failure so that BATCH_REVEAL_TEST_SEED replays them
+const SEED = Number(process.env.BATCH_REVEAL_TEST_SEED ?? Math.floor(Math.random() * 2 ** 32))
+
+describe('BatchReveal', () => {
+  let launchpegCF: ContractFactory
+  let coordinatorMockCF: ContractFactory
+  let launchpeg: Contract
+
+  let config: LaunchpegConfig
+
+  let signers: SignerWithAddress[]
+  let projectOwner: SignerWithAddress
+  let royaltyReceiver: SignerWithAddress
+
+  const baseURI = 'ipfs://base/'
+
+  before(async () => {
+    launchpegCF = await ethers.getContractFactory('Launchpeg')
+    coordinatorMockCF = await ethers.getContractFactory('VRFCoordinatorV2Mock')
+
+    signers = await ethers.getSigners()
+    projectOwner = signers[3]
+    royaltyReceiver = signers[4]
+
+    await network.provider.request({
+      method: 'hardhat_reset',
+      params: [
+        {
+          live: false,
+          saveDeployments: true,
+          tags: ['test', 'local'],
+        },
+      ],
+    })
+  })
+
+  const deployLaunchpeg = async (collectionSize: number, batchRevealSize: number) => {
+    config = { ...(await getDefaultLaunchpegConfig()) }
+    config.collectionSize = collectionSize
+    config.amountForDevs = collectionSize
+    config.amountForAuction = 0
+    config.amountForAllowlist = 0
+    config.batchRevealSize = batchRevealSize
+    config.batchRevealStart = BigNumber.from(0)
+    config.batchRevealInterval = BigNumber.from(0)
+
+    launchpeg = await launchpegCF.deploy()
+    await launchpeg.initialize(
+      'JoePEG',
+      'JOEPEG',
+      projectOwner.address,
+      royaltyReceiver.address,
+      config.maxBatchSize,
+      config.collectionSize,
+      config.amountForAuction,
+      config.amountForAllowlist,
+      config.amountForDevs,
+      config.batchRevealSize,
+      config.batchRevealStart,
+      config.batchRevealInterval
+    )
+    await initializePhasesLaunchpeg(launchpeg, config, Phase.DutchAuction)
+    await launchpeg.setBaseURI(baseURI)
+    await launchpeg.connect(projectOwner).devMint(collectionSize)
+  }
+
+  const expectMatchingTokenURIs = async () => {
+    const collectionSize = config.collectionSize
+    const revealBatchSize = config.batchRevealSize
+    const seeds = await getRevealedSeeds(launchpeg)
+    const map = getRevealMap({ collectionSize, revealBatchSize }, seeds)
+    expect(map.length).to.eq((await launchpeg.lastTokenRevealed()).toNumber())
+
+    for (let tokenId = 0; tokenId < map.length; tokenId++) {
+      expect(await launchpeg.tokenURI(tokenId)).to.eq(`${baseURI}${map[tokenId]}`)
+      expect(getShuffledTokenId({ collectionSize, revealBatchSize }, seeds, tokenId)).to.eq(map[tokenId])
+    }
+    return map
+  }
+
+  it('Should match tokenURI for pseudo-random reveals', async () => {
+    const random = createRandom(SEED)
+    for (let i = 0; i < 3; i++) {
+      // maxBatchSize is 5, devMint only accepts multiples of it
+      const batchRevealSize = 5 * random.int(1, 3)
+      await deployLaunchpeg(batchRevealSize * random.int(2, 8), batchRevealSize)
+
+      const batches = config.collectionSize / batchRevealSize
+      for (let batch = 0; batch < batches; batch++) {
+        // Mine a random number of blocks so that the seeds don't follow the same pattern on each run
+        await advanceBlockTo((await ethers.provider.getBlockNumber()) + random.int(1, 20))
+        await launchpeg.revealNextBatch()
+      }
+
+      const map = await expectMatchingTokenURIs()
+      expect([...map].sort((a, b) => a - b)).to.eql([...Array(config.collectionSize).keys()])
+    }
+  })
+
+  it('Should match tokenURI for VRF reveals and partial reveals', async () => {
+    await deployLaunchpeg(50, 10)
+
+    const coordinatorMock = await coordinatorMockCF.deploy(1, 1)
+    await coordinatorMock.createSubscription()
+    await coordinatorMock.fundSubscription(1, 1_000_000)
+    await coordinatorMock.addKeyHash(ethers.utils.formatBytes32String('Oxff'))
+    await coordinatorMock.addConsumer(0, launchpeg.address)
+    await launchpeg.setVRF(coordinatorMock.address, ethers.utils.formatBytes32String('Oxff'), 1, 200_000)
+
+    for (let requestId = 1; requestId <= 3; requestId++) {
+      await launchpeg.revealNextBatch()
+      await coordinatorMock.fulfillRandomWords(requestId, launchpeg.address)
+    }
+
+    const map = await expectMatchingTokenURIs()
+    expect(map.length).to.eq(30)
+    expect(new Set(map).size).to.eq(30)
+    expect(await launchpeg.tokenURI(30)).to.eq(await launchpeg.unrevealedURI())
+  })
+
+  afterEach(function () {
+    if (this.currentTest?.title.includes('pseudo-random') && this.currentTest.state === 'failed') {
+      console.log(`Replay with BATCH_REVEAL_TEST_SEED=${SEED}`)
+    }
+  })
+
+  after(async () => {
+    await network.provider.request({
+      method: 'hardhat_reset',
+      params: [],
+    })
+  })
+})
@@ -0,0 +1,200 @@
+import { ethers, network } from 'hardhat'
+import { expect } from 'chai'
+import fc from 'fast-check'
+import { advanceBlockTo } from './utils/time'
+import { initializePhasesLaunchpeg, getDefaultLaunchpegConfig, Phase, LaunchpegConfig } from './utils/helpers'
+import { ContractFactory, Contract, BigNumber } from 'ethers'
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
+
+// Collections generated by each property, BATCH_REVEAL_RUNS searches longer
+const NUM_RUNS = Number(process.env.BATCH_REVEAL_RUNS ?? 10)
+// The seed and path printed by fast-check on failure replay the failing collection
+const REPLAY = process.env.BATCH_REVEAL_SEED
+  ? { seed: Number(process.env.BATCH_REVEAL_SEED), path: process.env.BATCH_REVEAL_PATH, endOnFailure: true }
+  : {}
+
+const MAX_BATCHES = 8
+
+describe('BatchReveal properties', () => {
+  let launchpegCF: ContractFactory
+  let coordinatorMockCF: ContractFactory
+  let launchpeg: Contract
+  let coordinatorMock: Contract
+
+  let config: LaunchpegConfig
+
+  let signers: SignerWithAddress[]
+  let projectOwner: SignerWithAddress
+  let royaltyReceiver: SignerWithAddress
+
+  const baseURI = 'ipfs://base/'
+  const keyHash = ethers.utils.formatBytes32String('Oxff')
+
+  before(async () => {
+    launchpegCF = await ethers.getContractFactory('Launchpeg')
+    coordinatorMockCF = await ethers.getContractFactory('VRFCoordinatorV2Mock')
+
+    signers = await ethers.getSigners()
+    projectOwner = signers[3]
+    royaltyReceiver = signers[4]
+
+    await network.provider.request({
+      method: 'hardhat_reset',
+      params: [
+        {
+          live: false,
+          saveDeployments: true,
+          tags: ['test', 'local'],
+        },
+      ],
+    })
+
+    coordinatorMock = await coordinatorMockCF.deploy(1, 1)
+    await coordinatorMock.createSubscription()
+    await coordinatorMock.fundSubscription(1, ethers.utils.parseEther('1000000'))
+    await coordinatorMock.addKeyHash(keyHash)
+  })
+
+  // maxBatchSize is the reveal batch size, so that the whole collection can be dev minted
+  const collectionArbitrary = fc.record({
+    revealBatchSize: fc.integer({ min: 1, max: 10 }),
+    batches: fc.integer({ min: 1, max: MAX_BATCHES }),
+  })
+
+  const deployLaunchpeg = async (revealBatchSize: number, batches: number) => {
+    config = { ...(await getDefaultLaunchpegConfig()) }
+    config.maxBatchSize = revealBatchSize
+    config.collectionSize = revealBatchSize * batches
+    config.amountForDevs = config.collectionSize
+    config.amountForAuction = 0
+    config.amountForAllowlist = 0
+    config.batchRevealSize = revealBatchSize
+    config.batchRevealStart = BigNumber.from(0)
+    config.batchRevealInterval = BigNumber.from(0)
+
+    launchpeg = await launchpegCF.deploy()
+    await launchpeg.initialize(
+      'JoePEG',
+      'JOEPEG',
+      projectOwner.address,
+      royaltyReceiver.address,
+      config.maxBatchSize,
+      config.collectionSize,
+      config.amountForAuction,
+      config.amountForAllowlist,
+      config.amountForDevs,
+      config.batchRevealSize,
+      config.batchRevealStart,
+      config.batchRevealInterval
+    )
+    await initializePhasesLaunchpeg(launchpeg, config, Phase.DutchAuction)
+    await launchpeg.setBaseURI(baseURI)
+    await launchpeg.connect(projectOwner).devMint(config.collectionSize)
+  }
+
+  const getSeeds = async (): Promise<string> => {
+    const events = await launchpeg.queryFilter(launchpeg.filters.Reveal())
+    return events.map(({ args }) => `${args?.batchNumber}:${args?.batchSeed}`).join(', ')
+  }
+
+  /**
+   * Checks the URIs after a batch is revealed: the URIs revealed by the previous batches are unchanged,
+   * and the tokens at or above lastTokenRevealed are unrevealed
+   * @returns The revealed URIs
+   */
+  const expectConsistentReveal = async (previousURIs: string[]): Promise<string[]> => {
+    const lastTokenRevealed = (await launchpeg.lastTokenRevealed()).toNumber()
+    const unrevealedURI = await launchpeg.unrevealedURI()
+    const uris: string[] = await Promise.all(
+      [...Array(config.collectionSize).keys()].map((tokenId) => launchpeg.tokenURI(tokenId))
+    )
+    const seeds = await getSeeds()
+
+    previousURIs.forEach((uri, tokenId) => {
+      expect(uris[tokenId], `URI of token ${tokenId} changed, seeds ${seeds}`).to.eq(uri)
+    })
+    uris.slice(lastTokenRevealed).forEach((uri, i) => {
+      expect(uri, `Token ${lastTokenRevealed + i} isn't revealed yet, seeds ${seeds}`).to.eq(unrevealedURI)
+    })
+    return uris.slice(0, lastTokenRevealed)
+  }
+
+  const expectPermutation = async (uris: string[]) => {
+    const metadataIds = uris.map((uri) => Number(uri.slice(baseURI.length)))
+    expect(
+      [...metadataIds].sort((a, b) => a - b),
+      `Metadata ids aren't a permutation, seeds ${await getSeeds()}`
+    ).to.eql([...Array(config.collectionSize).keys()])
+  }
+
+  it('Should reveal each metadata id once through pseudo-random reveals', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        collectionArbitrary,
+        // Blocks mined before each reveal, the pseudo-random seed depends on the block
+        fc.array(fc.integer({ min: 0, max: 5 }), { minLength: MAX_BATCHES, maxLength: MAX_BATCHES }),
+        async ({ revealBatchSize, batches }, blocks) => {
+          await deployLaunchpeg(revealBatchSize, batches)
+
+          let uris: string[] = []
+          for (let batch = 0; batch < batches; batch++) {
+            await advanceBlockTo((await ethers.provider.getBlockNumber()) + blocks[batch])
+            await launchpeg.revealNextBatch()
+            uris = await expectConsistentReveal(uris)
+          }
+          await expectPermutation(uris)
+        }
+      ),
+      { numRuns: NUM_RUNS, ...REPLAY }
+    )
+  })
+
+  it('Should reveal each metadata id once through VRF reveals', async () => {
+    const coordinatorAddress = coordinatorMock.address
+    await network.provider.request({ method: 'hardhat_impersonateAccount', params: [coordinatorAddress] })
+    await network.provider.request({
+      method: 'hardhat_setBalance',
+      params: [coordinatorAddress, ethers.utils.hexStripZeros(ethers.utils.parseEther('100').toHexString())],
+    })
+    const coordinator = await ethers.getSigner(coordinatorAddress)
+
+    await fc.assert(
+      fc.asyncProperty(
+        collectionArbitrary,
+        // Random words sent by the coordinator, or null to let the mock derive them from the request id
+        fc.array(fc.option(fc.bigUintN(256)), { minLength: MAX_BATCHES, maxLength: MAX_BATCHES }),
+        async ({ revealBatchSize, batches }, words) => {
+          await deployLaunchpeg(revealBatchSize, batches)
+          await coordinatorMock.addConsumer(1, launchpeg.address)
+          await launchpeg.setVRF(coordinatorAddress, keyHash, 1, 200_000)
+
+          let uris: string[] = []
+          for (let batch = 0; batch < batches; batch++) {
+            const receipt = await (await launchpeg.revealNextBatch()).wait()
+            const requestLog = receipt.logs.find(({ address }: { address: string }) => address === coordinatorAddress)
+            const { requestId } = coordinatorMock.interface.parseLog(requestLog).args
+
+            const word = words[batch]
+            if (word === null) {
+              await coordinatorMock.fulfillRandomWords(requestId, launchpeg.address)
+            } else {
+              await launchpeg.connect(coordinator).rawFulfillRandomWords(requestId, [word.toString()])
+            }
+            uris = await expectConsistentReveal(uris)
+          }
+          await expectPermutation(uris)
+        }
+      ),
+      { numRuns: NUM_RUNS, ...REPLAY }
+    )
+
+    await network.provider.request({ method: 'hardhat_stopImpersonatingAccount', params: [coordinatorAddress] })
+  })
+
+  after(async () => {
+    await network.provider.request({
+      method: 'hardhat_reset',
+      params: [],
+    })
+  })
+})
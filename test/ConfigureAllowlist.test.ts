@@ -0,0 +1,161 @@
+import hre, { ethers, network, run } from 'hardhat'
+import { expect } from 'chai'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { initializePhasesLaunchpeg, getDefaultLaunchpegConfig, Phase, LaunchpegConfig } from './utils/helpers'
+import { ContractFactory, Contract } from 'ethers'
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
+import { getStatePath } from '../tasks/utils'
+
+describe('ConfigureAllowlist', () => {
+  let launchpegCF: ContractFactory
+  let launchpeg: Contract
+
+  let config: LaunchpegConfig
+
+  let signers: SignerWithAddress[]
+  let alice: SignerWithAddress
+  let bob: SignerWithAddress
+  let carol: SignerWithAddress
+  let projectOwner: SignerWithAddress
+  let royaltyReceiver: SignerWithAddress
+
+  let dir: string
+  let checkpointPath: string
+
+  before(async () => {
+    launchpegCF = await ethers.getContractFactory('Launchpeg')
+
+    signers = await ethers.getSigners()
+    alice = signers[1]
+    bob = signers[2]
+    projectOwner = signers[3]
+    royaltyReceiver = signers[4]
+    carol = signers[5]
+
+    await network.provider.request({
+      method: 'hardhat_reset',
+      params: [
+        {
+          live: false,
+          saveDeployments: true,
+          tags: ['test', 'local'],
+        },
+      ],
+    })
+  })
+
+  beforeEach(async () => {
+    config = { ...(await getDefaultLaunchpegConfig()) }
+    launchpeg = await launchpegCF.deploy()
+    await launchpeg.initialize(
+      'JoePEG',
+      'JOEPEG',
+      projectOwner.address,
+      royaltyReceiver.address,
+      config.maxBatchSize,
+      config.collectionSize,
+      config.amountForAuction,
+      config.amountForAllowlist,
+      config.amountForDevs,
+      config.batchRevealSize,
+      config.batchRevealStart,
+      config.batchRevealInterval
+    )
+    await initializePhasesLaunchpeg(launchpeg, config, Phase.NotStarted)
+
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'allowlist-'))
+    // Addresses are reused by every hardhat_reset, a checkpoint could be left by a previous run
+    checkpointPath = getStatePath(hre, `allowlist-${launchpeg.address}.json`)
+    fs.rmSync(checkpointPath, { force: true })
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+    fs.rmSync(checkpointPath, { force: true })
+  })
+
+  const configureAllowlist = async (rows: [SignerWithAddress, number][]): Promise<string[]> => {
+    const csvPath = path.join(dir, 'allowlist.csv')
+    fs.writeFileSync(
+      csvPath,
+      ['address,amount', ...rows.map(([{ address }, amount]) => `${address},${amount}`)].join('\n')
+    )
+    return run('configure-allowlist', { csvPath, contractAddress: launchpeg.address })
+  }
+
+  // Addresses sent by each seedAllowlist transaction
+  const getSeededAddresses = async (hashes: string[]): Promise<string[][]> => {
+    const transactions = await Promise.all(hashes.map((hash) => ethers.provider.getTransaction(hash)))
+    return transactions.map((tx) => launchpeg.interface.parseTransaction(tx).args._addresses)
+  }
+
+  it('Should only seed the addresses whose amount changed', async () => {
+    await launchpeg.seedAllowlist([alice.address, bob.address], [2, 3])
+
+    const hashes = await configureAllowlist([
+      [alice, 2],
+      [bob, 1],
+      [carol, 1],
+    ])
+
+    expect(await getSeededAddresses(hashes)).to.eql([[bob.address, carol.address]])
+    expect(await launchpeg.allowlist(bob.address)).to.eq(1)
+    expect(await launchpeg.allowlist(carol.address)).to.eq(1)
+  })
+
+  it('Should resume from the checkpoint without sending anything again', async () => {
+    const rows: [SignerWithAddress, number][] = [
+      [alice, 2],
+      [bob, 1],
+    ]
+    const hashes = await configureAllowlist(rows)
+    expect(hashes).to.have.length(1)
+
+    const blockNumber = await ethers.provider.getBlockNumber()
+    expect(await configureAllowlist(rows)).to.eql(hashes)
+    expect(await ethers.provider.getBlockNumber()).to.eq(blockNumber)
+  })
+
+  it('Should remove the addresses that left the csv', async () => {
+    await configureAllowlist([
+      [alice, 2],
+      [bob, 1],
+    ])
+
+    const hashes = await configureAllowlist([[alice, 2]])
+
+    expect(await getSeededAddresses(hashes)).to.eql([[bob.address]])
+    expect(await launchpeg.allowlist(alice.address)).to.eq(2)
+    expect(await launchpeg.allowlist(bob.address)).to.eq(0)
+  })
+
+  it('Should remove the addresses seeded on chain without a checkpoint', async () => {
+    await launchpeg.seedAllowlist([alice.address, bob.address], [2, 3])
+
+    await configureAllowlist([[alice, 2]])
+
+    expect(await launchpeg.allowlist(bob.address)).to.eq(0)
+  })
+
+  it('Should throw when the on-chain allowlist does not match the csv', async () => {
+    const rows: [SignerWithAddress, number][] = [
+      [alice, 2],
+      [bob, 1],
+    ]
+    await configureAllowlist(rows)
+    // Changed behind the back of the checkpoint, which still has alice as confirmed
+    await launchpeg.seedAllowlist([alice.address], [5])
+
+    const error = await configureAllowlist(rows).catch((err: Error) => err)
+    expect(error).to.be.an('error').with.property('message').that.contains("doesn't match the csv for 1 address(es)")
+  })
+
+  after(async () => {
+    await network.provider.request({
+      method: 'hardhat_reset',
+      params: [],
+    })
+  })
+})
@@ -0,0 +1,157 @@
+import hre, { ethers, network, run } from 'hardhat'
+import { expect } from 'chai'
+import crypto from 'crypto'
+import fs from 'fs'
+import jsonfile from 'jsonfile'
+import os from 'os'
+import path from 'path'
+import { initializePhasesLaunchpeg, getDefaultLaunchpegConfig, Phase, LaunchpegConfig } from './utils/helpers'
+import { ContractFactory, Contract } from 'ethers'
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
+import { getStatePath } from '../tasks/utils'
+
+describe('DevMintAirdrop', () => {
+  let launchpegCF: ContractFactory
+  let launchpeg: Contract
+
+  let config: LaunchpegConfig
+
+  let signers: SignerWithAddress[]
+  let dev: SignerWithAddress
+  let alice: SignerWithAddress
+  let bob: SignerWithAddress
+  let royaltyReceiver: SignerWithAddress
+
+  let dir: string
+  let csvPath: string
+  let reportPath: string
+  let csvHash: string
+  let statePath: string
+
+  before(async () => {
+    launchpegCF = await ethers.getContractFactory('Launchpeg')
+
+    signers = await ethers.getSigners()
+    // The task sends the transactions from the first signer
+    dev = signers[0]
+    alice = signers[1]
+    bob = signers[2]
+    royaltyReceiver = signers[4]
+
+    await network.provider.request({
+      method: 'hardhat_reset',
+      params: [
+        {
+          live: false,
+          saveDeployments: true,
+          tags: ['test', 'local'],
+        },
+      ],
+    })
+  })
+
+  beforeEach(async () => {
+    config = { ...(await getDefaultLaunchpegConfig()) }
+    launchpeg = await launchpegCF.deploy()
+    await launchpeg.initialize(
+      'JoePEG',
+      'JOEPEG',
+      dev.address,
+      royaltyReceiver.address,
+      config.maxBatchSize,
+      config.collectionSize,
+      config.amountForAuction,
+      config.amountForAllowlist,
+      config.amountForDevs,
+      config.batchRevealSize,
+      config.batchRevealStart,
+      config.batchRevealInterval
+    )
+    await initializePhasesLaunchpeg(launchpeg, config, Phase.NotStarted)
+
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'airdrop-'))
+    csvPath = path.join(dir, 'recipients.csv')
+    reportPath = path.join(dir, 'report.csv')
+    fs.writeFileSync(csvPath, `address,quantity\n${alice.address},2\n${bob.address},1\n`)
+
+    // Same path as the task, which is keyed by the hash of the recipients
+    const recipients = [
+      { address: alice.address, amount: 2 },
+      { address: bob.address, amount: 1 },
+    ]
+    csvHash = crypto.createHash('sha256').update(JSON.stringify(recipients)).digest('hex')
+    statePath = getStatePath(hre, `airdrop-${launchpeg.address}-${csvHash.slice(0, 8)}.json`)
+    // Addresses are reused by every hardhat_reset, a state could be left by a previous run
+    fs.rmSync(statePath, { force: true })
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+    fs.rmSync(statePath, { force: true })
+  })
+
+  const airdrop = (contractAddress: string = launchpeg.address) =>
+    run('dev-mint-airdrop', { contractAddress, csvPath, reportPath })
+
+  const expectAirdropped = async () => {
+    expect(await launchpeg.amountMintedByDevs()).to.eq(config.maxBatchSize)
+    expect(await launchpeg.ownerOf(0)).to.eq(alice.address)
+    expect(await launchpeg.ownerOf(1)).to.eq(alice.address)
+    expect(await launchpeg.ownerOf(2)).to.eq(bob.address)
+    // The mint is rounded up to a multiple of maxBatchSize, the extra tokens stay with the project owner
+    expect(await launchpeg.ownerOf(3)).to.eq(dev.address)
+    expect(await launchpeg.ownerOf(4)).to.eq(dev.address)
+  }
+
+  it('Should mint a multiple of maxBatchSize and send the tokens in the order of the csv', async () => {
+    await airdrop()
+
+    await expectAirdropped()
+    expect(fs.readFileSync(reportPath, 'utf8')).to.eq(
+      `address,quantity,tokenIds\n${alice.address},2,0 1\n${bob.address},1,2\n${dev.address},2,3 4\n`
+    )
+  })
+
+  it('Should find the minted tokens with a lowercase contract address', async () => {
+    await airdrop(launchpeg.address.toLowerCase())
+
+    await expectAirdropped()
+  })
+
+  it('Should not mint again when resuming after the mint was sent', async () => {
+    // A previous run sent devMint and died before reading its receipt
+    const mintTx = await launchpeg.devMint(config.maxBatchSize)
+    await mintTx.wait()
+    jsonfile.writeFileSync(statePath, {
+      csvHash,
+      mintTransaction: mintTx.hash,
+      tokenIds: [],
+      transfers: {},
+    })
+
+    await airdrop()
+
+    await expectAirdropped()
+  })
+
+  it('Should not send a token again when resuming after its transfer', async () => {
+    await airdrop()
+    const blockNumber = await ethers.provider.getBlockNumber()
+    // A previous run sent the transfers and died before saving them
+    const state = jsonfile.readFileSync(statePath)
+    jsonfile.writeFileSync(statePath, { ...state, transfers: {} })
+
+    await airdrop()
+
+    await expectAirdropped()
+    expect(await ethers.provider.getBlockNumber()).to.eq(blockNumber)
+    expect(jsonfile.readFileSync(statePath).transfers).to.eql({ 0: 'unknown', 1: 'unknown', 2: 'unknown' })
+  })
+
+  after(async () => {
+    await network.provider.request({
+      method: 'hardhat_reset',
+      params: [],
+    })
+  })
+})
@@ -0,0 +1,118 @@
+import { ethers, network } from 'hardhat'
+import { expect } from 'chai'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { initializePhasesLaunchpeg, getDefaultLaunchpegConfig, Phase, LaunchpegConfig } from './utils/helpers'
+import { ContractFactory, Contract } from 'ethers'
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
+import { getHolders, getOwnershipReadPoints } from '../tasks/holders'
+import { getSalesStore, indexSales, readSaleRecords, TransferRecord } from '../tasks/sales-indexer'
+
+describe('Holders', () => {
+  let launchpegCF: ContractFactory
+  let launchpeg: Contract
+
+  let config: LaunchpegConfig
+
+  let signers: SignerWithAddress[]
+  let projectOwner: SignerWithAddress
+  let royaltyReceiver: SignerWithAddress
+  let alice: SignerWithAddress
+  let bob: SignerWithAddress
+
+  before(async () => {
+    launchpegCF = await ethers.getContractFactory('Launchpeg')
+
+    signers = await ethers.getSigners()
+    alice = signers[1]
+    bob = signers[2]
+    projectOwner = signers[3]
+    royaltyReceiver = signers[4]
+
+    await network.provider.request({
+      method: 'hardhat_reset',
+      params: [
+        {
+          live: false,
+          saveDeployments: true,
+          tags: ['test', 'local'],
+        },
+      ],
+    })
+  })
+
+  beforeEach(async () => {
+    config = { ...(await getDefaultLaunchpegConfig()) }
+    launchpeg = await launchpegCF.deploy()
+    await launchpeg.initialize(
+      'JoePEG',
+      'JOEPEG',
+      projectOwner.address,
+      royaltyReceiver.address,
+      config.maxBatchSize,
+      config.collectionSize,
+      config.amountForAuction,
+      config.amountForAllowlist,
+      config.amountForDevs,
+      config.batchRevealSize,
+      config.batchRevealStart,
+      config.batchRevealInterval
+    )
+    await initializePhasesLaunchpeg(launchpeg, config, Phase.DutchAuction)
+  })
+
+  const getTransfers = async (blockNumber: number): Promise<TransferRecord[]> => {
+    const store = getSalesStore(fs.mkdtempSync(path.join(os.tmpdir(), 'holders-')))
+    await indexSales(launchpeg, 'Launchpeg', store, { fromBlock: 0, toBlock: blockNumber, blockRange: 1000 })
+    return readSaleRecords(store).filter((record): record is TransferRecord => record.event === 'Transfer')
+  }
+
+  const transfer = (from: SignerWithAddress, to: SignerWithAddress, tokenId: number) =>
+    launchpeg.connect(from)['safeTransferFrom(address,address,uint256)'](from.address, to.address, tokenId)
+
+  it('Should match ownerOf at the snapshot block', async () => {
+    // Tokens 0 to 9, minted in two batches
+    await launchpeg.connect(projectOwner).devMint(config.maxBatchSize * 2)
+    // Tokens 10 to 12 and 13 to 14
+    await launchpeg.connect(alice).auctionMint(3, { value: config.startPrice.mul(3) })
+    await launchpeg.connect(bob).auctionMint(2, { value: config.startPrice.mul(2) })
+
+    await transfer(projectOwner, alice, 3)
+    await transfer(projectOwner, bob, 9)
+    await transfer(alice, bob, 11)
+    const blockNumber = await ethers.provider.getBlockNumber()
+
+    // After the snapshot
+    await transfer(bob, alice, 14)
+
+    const transfers = await getTransfers(blockNumber)
+    const holders = await getHolders(launchpeg, transfers, blockNumber)
+
+    const totalSupply = (await launchpeg.totalSupply()).toNumber()
+    expect(getOwnershipReadPoints(transfers, totalSupply).length).to.be.lessThan(totalSupply)
+    for (let tokenId = 0; tokenId < totalSupply; tokenId++) {
+      const owner = await launchpeg.ownerOf(tokenId, { blockTag: blockNumber })
+      const holder = holders.find(({ tokenIds }) => tokenIds.includes(tokenId))
+      expect(holder?.address).to.eq(owner)
+    }
+    expect(holders.find(({ address }) => address === bob.address)?.tokenIds).to.eql([9, 11, 13, 14])
+  })
+
+  it('Should require the events from the creation of the collection', async () => {
+    await launchpeg.connect(projectOwner).devMint(config.maxBatchSize)
+    await launchpeg.connect(alice).auctionMint(1, { value: config.startPrice })
+    const blockNumber = await ethers.provider.getBlockNumber()
+
+    const transfers = (await getTransfers(blockNumber)).filter(({ tokenId }) => tokenId > 0)
+    const totalSupply = (await launchpeg.totalSupply()).toNumber()
+    expect(() => getOwnershipReadPoints(transfers, totalSupply)).to.throw('No mint event for token 0')
+  })
+
+  after(async () => {
+    await network.provider.request({
+      method: 'hardhat_reset',
+      params: [],
+    })
+  })
+})
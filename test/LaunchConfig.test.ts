@@ -0,0 +1,264 @@
+import { ethers, network } from 'hardhat'
+import { expect } from 'chai'
+import { latest } from './utils/time'
+import { ContractFactory } from 'ethers'
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
+import { assertValidLaunchConfig, FlatLaunchConfig, LaunchConfig, validateLaunchConfig } from '../tasks/launch-config'
+
+describe('LaunchConfig', () => {
+  let launchpegCF: ContractFactory
+  let flatLaunchpegCF: ContractFactory
+
+  let signers: SignerWithAddress[]
+  let projectOwner: SignerWithAddress
+  let royaltyReceiver: SignerWithAddress
+
+  let now: number
+  let launchConfig: LaunchConfig
+  let flatLaunchConfig: FlatLaunchConfig
+
+  before(async () => {
+    launchpegCF = await ethers.getContractFactory('Launchpeg')
+    flatLaunchpegCF = await ethers.getContractFactory('FlatLaunchpeg')
+
+    signers = await ethers.getSigners()
+    projectOwner = signers[3]
+    royaltyReceiver = signers[4]
+
+    await network.provider.request({
+      method: 'hardhat_reset',
+      params: [
+        {
+          live: false,
+          saveDeployments: true,
+          tags: ['test', 'local'],
+        },
+      ],
+    })
+  })
+
+  beforeEach(async () => {
+    now = (await latest()).toNumber()
+    const baseConfig = {
+      name: 'JoePEG',
+      symbol: 'JOEPEG',
+      projectOwner: projectOwner.address,
+      royaltyReceiver: royaltyReceiver.address,
+      maxBatchSize: '5',
+      collectionSize: '100',
+      amountForDevs: '10',
+      amountForAllowlist: '20',
+      batchRevealSize: '10',
+      batchRevealStart: '0',
+      batchRevealInterval: '0',
+      allowlistStartTime: String(now + 3600),
+      publicSaleStartTime: String(now + 7200),
+    }
+    launchConfig = {
+      ...baseConfig,
+      amountForAuction: '50',
+      auctionSaleStartTime: String(now + 600),
+      auctionStartPrice: ethers.utils.parseEther('1').toString(),
+      auctionEndPrice: ethers.utils.parseEther('0.1').toString(),
+      auctionDropInterval: '600',
+      allowlistDiscountPercent: '1000',
+      publicSaleDiscountPercent: '2000',
+    }
+    flatLaunchConfig = {
+      ...baseConfig,
+      allowlistPrice: ethers.utils.parseEther('0.5').toString(),
+      salePrice: ethers.utils.parseEther('1').toString(),
+    }
+  })
+
+  const initializeLaunchpeg = async (config: LaunchConfig) => {
+    const launchpeg = await launchpegCF.deploy()
+    await launchpeg.initialize(
+      config.name,
+      config.symbol,
+      config.projectOwner,
+      config.royaltyReceiver,
+      config.maxBatchSize,
+      config.collectionSize,
+      config.amountForAuction,
+      config.amountForAllowlist,
+      config.amountForDevs,
+      config.batchRevealSize,
+      config.batchRevealStart,
+      config.batchRevealInterval
+    )
+    await launchpeg.initializePhases(
+      config.auctionSaleStartTime,
+      config.auctionStartPrice,
+      config.auctionEndPrice,
+      config.auctionDropInterval,
+      config.allowlistStartTime,
+      config.allowlistDiscountPercent,
+      config.publicSaleStartTime,
+      config.publicSaleDiscountPercent
+    )
+  }
+
+  const initializeFlatLaunchpeg = async (config: FlatLaunchConfig) => {
+    const flatLaunchpeg = await flatLaunchpegCF.deploy()
+    await flatLaunchpeg.initialize(
+      config.name,
+      config.symbol,
+      config.projectOwner,
+      config.royaltyReceiver,
+      config.maxBatchSize,
+      config.collectionSize,
+      config.amountForDevs,
+      config.amountForAllowlist,
+      config.batchRevealSize,
+      config.batchRevealStart,
+      config.batchRevealInterval
+    )
+    await flatLaunchpeg.initializePhases(
+      config.allowlistStartTime,
+      config.publicSaleStartTime,
+      config.allowlistPrice,
+      config.salePrice
+    )
+  }
+
+  describe('Valid configs', () => {
+    it('Should accept the configs accepted by the contracts', async () => {
+      expect(validateLaunchConfig(launchConfig, now)).to.be.empty
+      expect(validateLaunchConfig(flatLaunchConfig, now)).to.be.empty
+      await initializeLaunchpeg(launchConfig)
+      await initializeFlatLaunchpeg(flatLaunchConfig)
+    })
+  })
+
+  describe('Launchpeg', () => {
+    it('Should reject a batch reveal size not dividing the collection', async () => {
+      launchConfig.batchRevealSize = '30'
+      expect(validateLaunchConfig(launchConfig, now)).to.eql(['batchRevealSize (30) must divide collectionSize (100)'])
+      await expect(initializeLaunchpeg(launchConfig)).to.be.revertedWith('Launchpeg__InvalidBatchRevealSize()')
+    })
+
+    it('Should reject amounts exceeding the collection size', async () => {
+      launchConfig.amountForAuction = '80'
+      expect(validateLaunchConfig(launchConfig, now)).to.eql([
+        'amountForAuction + amountForAllowlist + amountForDevs (110) exceeds collectionSize (100)',
+      ])
+      await expect(initializeLaunchpeg(launchConfig)).to.be.revertedWith('Launchpeg__LargerCollectionSizeNeeded()')
+    })
+
+    it('Should reject a max batch size larger than the collection', async () => {
+      launchConfig.maxBatchSize = '200'
+      expect(validateLaunchConfig(launchConfig, now)).to.eql(['maxBatchSize (200) exceeds collectionSize (100)'])
+      await expect(initializeLaunchpeg(launchConfig)).to.be.revertedWith('Launchpeg__InvalidMaxBatchSize()')
+    })
+
+    it('Should reject an auction starting in the past', async () => {
+      launchConfig.auctionSaleStartTime = String(now - 60)
+      expect(validateLaunchConfig(launchConfig, now)).to.eql([`auctionSaleStartTime (${now - 60}) is in the past`])
+      await expect(initializeLaunchpeg(launchConfig)).to.be.revertedWith('Launchpeg__InvalidStartTime()')
+    })
+
+    it('Should reject an end price not lower than the start price', async () => {
+      launchConfig.auctionEndPrice = launchConfig.auctionStartPrice
+      expect(validateLaunchConfig(launchConfig, now)).to.eql([
+        `auctionEndPrice (${launchConfig.auctionStartPrice}) must be lower than auctionStartPrice (${launchConfig.auctionStartPrice})`,
+      ])
+      await expect(initializeLaunchpeg(launchConfig)).to.be.revertedWith('Launchpeg__EndPriceGreaterThanStartPrice()')
+    })
+
+    it('Should reject an allowlist starting before the end of the auction', async () => {
+      launchConfig.allowlistStartTime = launchConfig.auctionSaleStartTime
+      expect(validateLaunchConfig(launchConfig, now)).to.eql([
+        `allowlistStartTime (${now + 600}) must be after auctionSaleStartTime (${now + 600})`,
+      ])
+      await expect(initializeLaunchpeg(launchConfig)).to.be.revertedWith('Launchpeg__AllowlistBeforeAuction()')
+    })
+
+    it('Should reject a public sale starting before the allowlist', async () => {
+      launchConfig.publicSaleStartTime = String(now + 3000)
+      expect(validateLaunchConfig(launchConfig, now)).to.eql([
+        `publicSaleStartTime (${now + 3000}) is before allowlistStartTime (${now + 3600})`,
+      ])
+      await expect(initializeLaunchpeg(launchConfig)).to.be.revertedWith('Launchpeg__PublicSaleBeforeAllowlist()')
+    })
+
+    it('Should reject a drop interval longer than a quarter of the auction', async () => {
+      launchConfig.auctionDropInterval = '1000'
+      expect(validateLaunchConfig(launchConfig, now)).to.eql([
+        'auctionDropInterval (1000) must be between 1 and a quarter of the auction duration (3000)',
+      ])
+      await expect(initializeLaunchpeg(launchConfig)).to.be.revertedWith('Launchpeg__InvalidAuctionDropInterval()')
+    })
+
+    it('Should reject a discount above 100%', async () => {
+      launchConfig.publicSaleDiscountPercent = '10001'
+      expect(validateLaunchConfig(launchConfig, now)).to.eql(['publicSaleDiscountPercent (10001) exceeds 10000'])
+      await expect(initializeLaunchpeg(launchConfig)).to.be.revertedWith('Launchpeg__InvalidPercent()')
+    })
+
+    it('Should reject reveal dates the contract considers mistakes', async () => {
+      launchConfig.batchRevealStart = String(now + 8_640_000 + 3600)
+      launchConfig.batchRevealInterval = '864001'
+      expect(validateLaunchConfig(launchConfig, now)).to.eql([
+        `batchRevealStart (${now + 8_640_000 + 3600}) is more than 100 days in the future`,
+        'batchRevealInterval (864001) is longer than 10 days',
+      ])
+      await expect(initializeLaunchpeg(launchConfig)).to.be.revertedWith('Launchpeg__InvalidRevealDates()')
+    })
+  })
+
+  describe('FlatLaunchpeg', () => {
+    it('Should reject an allowlist price above the sale price', async () => {
+      flatLaunchConfig.allowlistPrice = ethers.utils.parseEther('2').toString()
+      expect(validateLaunchConfig(flatLaunchConfig, now)).to.eql([
+        `allowlistPrice (${flatLaunchConfig.allowlistPrice}) must not be greater than salePrice (${flatLaunchConfig.salePrice})`,
+      ])
+      await expect(initializeFlatLaunchpeg(flatLaunchConfig)).to.be.revertedWith('Launchpeg__InvalidAllowlistPrice()')
+    })
+
+    it('Should reject a public sale starting before the allowlist', async () => {
+      flatLaunchConfig.publicSaleStartTime = String(now + 3000)
+      expect(validateLaunchConfig(flatLaunchConfig, now)).to.eql([
+        `publicSaleStartTime (${now + 3000}) is before allowlistStartTime (${now + 3600})`,
+      ])
+      await expect(initializeFlatLaunchpeg(flatLaunchConfig)).to.be.revertedWith(
+        'Launchpeg__PublicSaleBeforeAllowlist()'
+      )
+    })
+
+    it('Should reject devs and allowlist amounts exceeding the collection size', async () => {
+      flatLaunchConfig.amountForAllowlist = '95'
+      expect(validateLaunchConfig(flatLaunchConfig, now)).to.eql([
+        'amountForDevs + amountForAllowlist (105) exceeds collectionSize (100)',
+      ])
+      await expect(initializeFlatLaunchpeg(flatLaunchConfig)).to.be.revertedWith(
+        'Launchpeg__LargerCollectionSizeNeeded()'
+      )
+    })
+  })
+
+  describe('Reporting', () => {
+    it('Should report missing and malformed fields', async () => {
+      const config = { ...flatLaunchConfig, collectionSize: '', maxBatchSize: '1.5', projectOwner: '0x1234' }
+      expect(validateLaunchConfig(config, now)).to.eql([
+        'projectOwner is not a valid address, got "0x1234"',
+        'maxBatchSize must be a non-negative integer, got "1.5"',
+        'collectionSize is missing',
+      ])
+    })
+
+    it('Should report every violation before throwing', async () => {
+      launchConfig.batchRevealSize = '30'
+      launchConfig.auctionEndPrice = launchConfig.auctionStartPrice
+      expect(validateLaunchConfig(launchConfig, now)).to.have.length(2)
+      expect(() => assertValidLaunchConfig(launchConfig, now)).to.throw('Invalid launch config')
+    })
+  })
+
+  after(async () => {
+    await network.provider.request({
+      method: 'hardhat_reset',
+      params: [],
+    })
+  })
+})
@@ -0,0 +1,117 @@
+import hre, { ethers, network } from 'hardhat'
+import { expect } from 'chai'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { Contract } from 'ethers'
+import { loadLaunchPipeline, runLaunchStep, sendOnce } from '../tasks/launch-pipeline'
+import { getLaunchConfigPath } from '../tasks/utils'
+
+describe('LaunchPipeline', () => {
+  let coordinatorMock: Contract
+
+  let dir: string
+  let configFilename: string
+  let statePath: string
+
+  before(async () => {
+    await network.provider.request({
+      method: 'hardhat_reset',
+      params: [
+        {
+          live: false,
+          saveDeployments: true,
+          tags: ['test', 'local'],
+        },
+      ],
+    })
+  })
+
+  beforeEach(async () => {
+    // Each createSubscription call increments the subscription id, which shows how many were sent
+    coordinatorMock = await (await ethers.getContractFactory('VRFCoordinatorV2Mock')).deploy(1, 1)
+
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'launch-'))
+    fs.writeFileSync(path.join(dir, 'launch.json'), '{}')
+    // Config files are looked up in tasks/config
+    configFilename = path.relative(getLaunchConfigPath(''), path.join(dir, 'launch.json'))
+    statePath = loadLaunchPipeline(hre, configFilename).statePath
+  })
+
+  afterEach(() => {
+    fs.rmSync(statePath, { force: true })
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  const interrupted = async (action: () => Promise<unknown>) => {
+    const error = await action().catch((err: Error) => err)
+    expect(error).to.be.an('error').with.property('message', 'Interrupted')
+  }
+
+  it('Should skip the completed steps when resuming', async () => {
+    let pipeline = loadLaunchPipeline(hre, configFilename)
+    await runLaunchStep(pipeline, 'create', async () => ['0x01'])
+    await interrupted(() =>
+      runLaunchStep(pipeline, 'initialize-phases', async () => {
+        throw new Error('Interrupted')
+      })
+    )
+
+    pipeline = loadLaunchPipeline(hre, configFilename)
+    const executed: string[] = []
+    await runLaunchStep(pipeline, 'create', async () => {
+      executed.push('create')
+      return []
+    })
+    await runLaunchStep(pipeline, 'initialize-phases', async () => {
+      executed.push('initialize-phases')
+      return ['0x02']
+    })
+
+    expect(executed).to.eql(['initialize-phases'])
+    expect(pipeline.state.steps.create?.transactions).to.eql(['0x01'])
+    expect(pipeline.state.steps['initialize-phases']?.transactions).to.eql(['0x02'])
+    expect(pipeline.state.steps['initialize-phases']?.completedAt).to.be.gt(0)
+  })
+
+  it('Should wait for a recorded transaction instead of sending it again', async () => {
+    let pipeline = loadLaunchPipeline(hre, configFilename)
+    let sentHash = ''
+    // The process dies after the transaction is sent, before the step is recorded as completed
+    await interrupted(() =>
+      runLaunchStep(pipeline, 'initialize-phases', async () => {
+        sentHash = (await sendOnce(hre, pipeline, 'initialize-phases', () => coordinatorMock.createSubscription()))
+          .transactionHash
+        throw new Error('Interrupted')
+      })
+    )
+    expect(pipeline.state.steps['initialize-phases']).to.eql({ transactions: [sentHash] })
+
+    pipeline = loadLaunchPipeline(hre, configFilename)
+    await runLaunchStep(pipeline, 'initialize-phases', async () => {
+      const receipt = await sendOnce(hre, pipeline, 'initialize-phases', () => coordinatorMock.createSubscription())
+      return [receipt.transactionHash]
+    })
+
+    expect(pipeline.state.steps['initialize-phases']?.transactions).to.eql([sentHash])
+    // A second subscription would have been created if the transaction had been sent again
+    await expect(coordinatorMock.getSubscription(2)).to.be.revertedWith('InvalidSubscription()')
+  })
+
+  it('Should execute the steps again from --from-step', async () => {
+    let pipeline = loadLaunchPipeline(hre, configFilename)
+    await runLaunchStep(pipeline, 'create', async () => ['0x01'])
+    await runLaunchStep(pipeline, 'initialize-phases', async () => ['0x02'])
+
+    pipeline = loadLaunchPipeline(hre, configFilename, 'initialize-phases')
+    expect(pipeline.state.steps.create?.completedAt).to.be.gt(0)
+    expect(pipeline.state.steps['initialize-phases']).to.be.undefined
+  })
+
+  after(async () => {
+    await network.provider.request({
+      method: 'hardhat_reset',
+      params: [],
+    })
+  })
+})
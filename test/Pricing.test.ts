@@ -0,0 +1,123 @@
+import { ethers, network } from 'hardhat'
+import { expect } from 'chai'
+import { duration } from './utils/time'
+import { initializePhasesLaunchpeg, getDefaultLaunchpegConfig, Phase, LaunchpegConfig } from './utils/helpers'
+import { ContractFactory, Contract } from 'ethers'
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
+import {
+  getAllowlistPrice,
+  getAuctionPrice,
+  getPriceSchedule,
+  getPublicSalePrice,
+  PricingParams,
+} from '../tasks/pricing'
+
+describe('Pricing', () => {
+  let launchpegCF: ContractFactory
+  let launchpeg: Contract
+
+  let config: LaunchpegConfig
+  let params: PricingParams
+
+  let signers: SignerWithAddress[]
+  let projectOwner: SignerWithAddress
+  let royaltyReceiver: SignerWithAddress
+
+  before(async () => {
+    launchpegCF = await ethers.getContractFactory('Launchpeg')
+
+    signers = await ethers.getSigners()
+    projectOwner = signers[3]
+    royaltyReceiver = signers[4]
+
+    await network.provider.request({
+      method: 'hardhat_reset',
+      params: [
+        {
+          live: false,
+          saveDeployments: true,
+          tags: ['test', 'local'],
+        },
+      ],
+    })
+  })
+
+  beforeEach(async () => {
+    config = { ...(await getDefaultLaunchpegConfig()) }
+    // Values that don't divide evenly, so that the rounding of the contract is exercised
+    config.endPrice = ethers.utils.parseUnits('0.15', 18).add(7)
+    config.auctionDropInterval = duration.minutes(7)
+    config.allowlistDiscount = 1234
+    config.publicSaleDiscount = 2345
+
+    launchpeg = await launchpegCF.deploy()
+    await launchpeg.initialize(
+      'JoePEG',
+      'JOEPEG',
+      projectOwner.address,
+      royaltyReceiver.address,
+      config.maxBatchSize,
+      config.collectionSize,
+      config.amountForAuction,
+      config.amountForAllowlist,
+      config.amountForDevs,
+      config.batchRevealSize,
+      config.batchRevealStart,
+      config.batchRevealInterval
+    )
+    await initializePhasesLaunchpeg(launchpeg, config, Phase.NotStarted)
+
+    params = {
+      auctionSaleStartTime: config.auctionStartTime,
+      auctionStartPrice: config.startPrice,
+      auctionEndPrice: config.endPrice,
+      auctionDropInterval: config.auctionDropInterval,
+      allowlistStartTime: config.allowlistStartTime,
+      allowlistDiscountPercent: config.allowlistDiscount,
+      publicSaleDiscountPercent: config.publicSaleDiscount,
+    }
+  })
+
+  it('Should match the contract prices at each step boundary', async () => {
+    const schedule = getPriceSchedule(params)
+    const interval = config.auctionDropInterval.toNumber()
+    const allowlistStartTime = config.allowlistStartTime.toNumber()
+
+    // First and last second of every step the auction can be minted at
+    const timestamps = schedule
+      .flatMap(({ timestamp }) => [timestamp, timestamp + interval - 1])
+      .filter((timestamp) => timestamp < allowlistStartTime)
+
+    for (let i = 0; i < timestamps.length; i++) {
+      await network.provider.send('evm_setNextBlockTimestamp', [timestamps[i]])
+      // Mints are limited per address
+      const minter = signers[5 + (i % 10)]
+      await launchpeg.connect(minter).auctionMint(1, { value: config.startPrice })
+
+      const lastAuctionPrice = await launchpeg.lastAuctionPrice()
+      expect(lastAuctionPrice).to.eq(getAuctionPrice(params, timestamps[i]))
+      expect(await launchpeg.getAllowlistPrice()).to.eq(getAllowlistPrice(lastAuctionPrice, config.allowlistDiscount))
+      expect(await launchpeg.getPublicSalePrice()).to.eq(
+        getPublicSalePrice(lastAuctionPrice, config.publicSaleDiscount)
+      )
+    }
+
+    // A sale start far enough in the past to be over
+    expect(await launchpeg.getAuctionPrice(0)).to.eq(schedule[schedule.length - 1].auctionPrice)
+    expect(schedule[schedule.length - 1].auctionPrice).to.eq(config.endPrice)
+  })
+
+  it('Should match the contract prices before the auction', async () => {
+    const [firstStep] = getPriceSchedule(params)
+    expect(await launchpeg.getAuctionPrice(config.auctionStartTime)).to.eq(firstStep.auctionPrice)
+    expect(await launchpeg.getAllowlistPrice()).to.eq(firstStep.allowlistPrice)
+    expect(await launchpeg.getPublicSalePrice()).to.eq(firstStep.publicSalePrice)
+  })
+
+  after(async () => {
+    await network.provider.request({
+      method: 'hardhat_reset',
+      params: [],
+    })
+  })
+})
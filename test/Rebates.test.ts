@@ -0,0 +1,199 @@
+import hre, { ethers, network, run } from 'hardhat'
+import { expect } from 'chai'
+import fs from 'fs'
+import jsonfile from 'jsonfile'
+import os from 'os'
+import path from 'path'
+import { advanceTimeAndBlock, latest } from './utils/time'
+import { initializePhasesLaunchpeg, getDefaultLaunchpegConfig, Phase, LaunchpegConfig } from './utils/helpers'
+import { ContractFactory, Contract, BigNumber } from 'ethers'
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
+import { computeRebates } from '../tasks/rebates'
+import { getSalesStore, indexSales, MintRecord, readSaleRecords } from '../tasks/sales-indexer'
+import { getStatePath } from '../tasks/utils'
+
+describe('Rebates', () => {
+  let launchpegCF: ContractFactory
+  let launchpeg: Contract
+
+  let config: LaunchpegConfig
+
+  let signers: SignerWithAddress[]
+  let projectOwner: SignerWithAddress
+  let royaltyReceiver: SignerWithAddress
+  let alice: SignerWithAddress
+  let bob: SignerWithAddress
+  let carol: SignerWithAddress
+
+  before(async () => {
+    launchpegCF = await ethers.getContractFactory('Launchpeg')
+
+    signers = await ethers.getSigners()
+    alice = signers[1]
+    bob = signers[2]
+    projectOwner = signers[3]
+    royaltyReceiver = signers[4]
+    carol = signers[5]
+
+    await network.provider.request({
+      method: 'hardhat_reset',
+      params: [
+        {
+          live: false,
+          saveDeployments: true,
+          tags: ['test', 'local'],
+        },
+      ],
+    })
+  })
+
+  beforeEach(async () => {
+    config = { ...(await getDefaultLaunchpegConfig()) }
+    launchpeg = await launchpegCF.deploy()
+    await launchpeg.initialize(
+      'JoePEG',
+      'JOEPEG',
+      projectOwner.address,
+      royaltyReceiver.address,
+      config.maxBatchSize,
+      config.collectionSize,
+      config.amountForAuction,
+      config.amountForAllowlist,
+      config.amountForDevs,
+      config.batchRevealSize,
+      config.batchRevealStart,
+      config.batchRevealInterval
+    )
+    await initializePhasesLaunchpeg(launchpeg, config, Phase.DutchAuction)
+  })
+
+  const getMints = async (): Promise<MintRecord[]> => {
+    const store = getSalesStore(fs.mkdtempSync(path.join(os.tmpdir(), 'rebates-')))
+    const toBlock = await ethers.provider.getBlockNumber()
+    await indexSales(launchpeg, 'Launchpeg', store, { fromBlock: 0, toBlock, blockRange: 1000 })
+    return readSaleRecords(store).filter((record): record is MintRecord => record.event === 'Mint')
+  }
+
+  it('Should rebate the difference with lastAuctionPrice, per wallet', async () => {
+    // Alice mints at three different prices, bob at the last one only
+    await launchpeg.connect(alice).auctionMint(2, { value: config.startPrice.mul(2) })
+    await advanceTimeAndBlock(config.auctionDropInterval)
+    await launchpeg.connect(alice).auctionMint(1, { value: config.startPrice })
+    await advanceTimeAndBlock(config.auctionDropInterval)
+    await launchpeg.connect(alice).auctionMint(1, { value: config.startPrice })
+    await launchpeg.connect(bob).auctionMint(1, { value: config.startPrice })
+
+    const lastAuctionPrice: BigNumber = await launchpeg.lastAuctionPrice()
+    const mints = await getMints()
+    const rebates = computeRebates(mints, lastAuctionPrice)
+
+    const aliceMints = mints.filter(({ sender }) => sender === alice.address)
+    const alicePaid = aliceMints.reduce(
+      (sum, { price, quantity }) => sum.add(BigNumber.from(price).mul(quantity)),
+      BigNumber.from(0)
+    )
+    expect(rebates.map(({ address }) => address)).to.eql([alice.address, bob.address])
+    expect(rebates[0]).to.deep.include({ mints: 3, quantity: 4 })
+    expect(rebates[0].paid).to.eq(alicePaid)
+    expect(rebates[0].rebate).to.eq(alicePaid.sub(lastAuctionPrice.mul(4)))
+    expect(rebates[1].rebate).to.eq(0)
+  })
+
+  it('Should use a custom clearing price', async () => {
+    await launchpeg.connect(alice).auctionMint(1, { value: config.startPrice })
+
+    const clearingPrice = config.endPrice
+    const rebates = computeRebates(await getMints(), clearingPrice)
+
+    expect(rebates).to.have.length(1)
+    expect(rebates[0].rebate).to.eq(config.startPrice.sub(clearingPrice))
+  })
+
+  describe('auction-rebates', () => {
+    let dir: string
+    let ledgerPath: string
+
+    beforeEach(async () => {
+      // Alice and bob mint at the start price, carol at the clearing price
+      await launchpeg.connect(alice).auctionMint(2, { value: config.startPrice.mul(2) })
+      await launchpeg.connect(bob).auctionMint(1, { value: config.startPrice })
+      await advanceTimeAndBlock(config.auctionDropInterval)
+      await launchpeg.connect(carol).auctionMint(1, { value: config.startPrice })
+
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rebates-'))
+      // Addresses are reused by every hardhat_reset, a ledger or a store could be left by a previous run
+      ledgerPath = getStatePath(hre, `rebates-${launchpeg.address}.json`)
+      fs.rmSync(ledgerPath, { force: true })
+      fs.rmSync(getStatePath(hre, `sales-${launchpeg.address}`), { recursive: true, force: true })
+    })
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true })
+      fs.rmSync(ledgerPath, { force: true })
+      fs.rmSync(getStatePath(hre, `sales-${launchpeg.address}`), { recursive: true, force: true })
+    })
+
+    const sendRebates = (contractAddress: string = launchpeg.address, clearingPrice?: string) =>
+      run('auction-rebates', {
+        contractAddress,
+        clearingPrice,
+        output: path.join(dir, 'rebates.csv'),
+        send: true,
+        yes: true,
+      })
+
+    const endAuction = async () => advanceTimeAndBlock(config.allowlistStartTime.sub(await latest()))
+
+    it('Should never pay the same buyer twice when resuming', async () => {
+      await endAuction()
+      const clearingPrice: BigNumber = await launchpeg.lastAuctionPrice()
+      // A previous run paid alice, then died
+      const tx = await signers[0].sendTransaction({
+        to: alice.address,
+        value: config.startPrice.sub(clearingPrice).mul(2),
+      })
+      jsonfile.writeFileSync(ledgerPath, {
+        clearingPrice: clearingPrice.toString(),
+        sent: { [alice.address]: tx.hash },
+      })
+      const aliceBalance = await alice.getBalance()
+      const bobBalance = await bob.getBalance()
+
+      await sendRebates()
+
+      expect(await alice.getBalance()).to.eq(aliceBalance)
+      expect(await bob.getBalance()).to.eq(bobBalance.add(config.startPrice.sub(clearingPrice)))
+
+      // Another spelling of the address reads the same ledger
+      const blockNumber = await ethers.provider.getBlockNumber()
+      await sendRebates(launchpeg.address.toLowerCase())
+      expect(await ethers.provider.getBlockNumber()).to.eq(blockNumber)
+    })
+
+    it('Should refuse a clearing price other than the one of the ledger', async () => {
+      await endAuction()
+      await sendRebates()
+      const blockNumber = await ethers.provider.getBlockNumber()
+
+      const error = await sendRebates(launchpeg.address, '0.5').catch((err: Error) => err)
+      expect(error).to.be.an('error').with.property('message').that.contains('not 0.5 AVAX')
+      expect(await ethers.provider.getBlockNumber()).to.eq(blockNumber)
+    })
+
+    it('Should require a clearing price until the auction is over', async () => {
+      const error = await sendRebates().catch((err: Error) => err)
+      expect(error)
+        .to.be.an('error')
+        .with.property('message')
+        .that.eq(`${launchpeg.address} is in the DutchAuction phase, wait for the auction to end`)
+      expect(fs.existsSync(ledgerPath)).to.be.false
+    })
+  })
+
+  after(async () => {
+    await network.provider.request({
+      method: 'hardhat_reset',
+      params: [],
+    })
+  })
+})
@@ -0,0 +1,159 @@
+import { ethers, network } from 'hardhat'
+import { expect } from 'chai'
+import { advanceTimeAndBlock, duration } from './utils/time'
+import { initializePhasesLaunchpeg, getDefaultLaunchpegConfig, Phase, LaunchpegConfig } from './utils/helpers'
+import { ContractFactory, Contract, BigNumber } from 'ethers'
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
+import { checkCollection, RevealKeeperOptions, RevealKeeperState } from '../tasks/reveal'
+
+describe('RevealKeeper', () => {
+  let launchpegCF: ContractFactory
+  let coordinatorMockCF: ContractFactory
+  let launchpeg: Contract
+  let coordinatorMock: Contract
+
+  let config: LaunchpegConfig
+  let state: RevealKeeperState
+  let options: RevealKeeperOptions
+
+  let signers: SignerWithAddress[]
+  let dev: SignerWithAddress
+  let projectOwner: SignerWithAddress
+  let royaltyReceiver: SignerWithAddress
+
+  before(async () => {
+    launchpegCF = await ethers.getContractFactory('Launchpeg')
+    coordinatorMockCF = await ethers.getContractFactory('VRFCoordinatorV2Mock')
+
+    signers = await ethers.getSigners()
+    dev = signers[0]
+    projectOwner = signers[3]
+    royaltyReceiver = signers[4]
+
+    await network.provider.request({
+      method: 'hardhat_reset',
+      params: [
+        {
+          live: false,
+          saveDeployments: true,
+          tags: ['test', 'local'],
+        },
+      ],
+    })
+  })
+
+  beforeEach(async () => {
+    config = { ...(await getDefaultLaunchpegConfig()) }
+    config.collectionSize = 50
+    config.amountForDevs = 50
+    config.amountForAuction = 0
+    config.amountForAllowlist = 0
+    config.batchRevealSize = 10
+    config.batchRevealStart = BigNumber.from(0)
+    config.batchRevealInterval = BigNumber.from(0)
+
+    launchpeg = await launchpegCF.deploy()
+    await launchpeg.initialize(
+      'JoePEG',
+      'JOEPEG',
+      projectOwner.address,
+      royaltyReceiver.address,
+      config.maxBatchSize,
+      config.collectionSize,
+      config.amountForAuction,
+      config.amountForAllowlist,
+      config.amountForDevs,
+      config.batchRevealSize,
+      config.batchRevealStart,
+      config.batchRevealInterval
+    )
+    await initializePhasesLaunchpeg(launchpeg, config, Phase.DutchAuction)
+
+    state = {}
+    options = { stuckTimeout: duration.hours(1).toNumber(), forceReveal: false }
+  })
+
+  const setVRF = async () => {
+    coordinatorMock = await coordinatorMockCF.deploy(1, 1)
+    await coordinatorMock.createSubscription()
+    await coordinatorMock.fundSubscription(1, 1_000_000)
+    await coordinatorMock.addKeyHash(ethers.utils.formatBytes32String('Oxff'))
+    await coordinatorMock.addConsumer(0, launchpeg.address)
+    await launchpeg.setVRF(coordinatorMock.address, ethers.utils.formatBytes32String('Oxff'), 1, 200_000)
+  }
+
+  it('Should do nothing until a batch is ready', async () => {
+    expect(await checkCollection(launchpeg, state, options)).to.be.empty
+
+    await launchpeg.connect(projectOwner).devMint(config.batchRevealSize / 2)
+    expect(await checkCollection(launchpeg, state, options)).to.be.empty
+    expect(await launchpeg.lastTokenRevealed()).to.eq(0)
+  })
+
+  it('Should reveal batches with pseudo-randomness', async () => {
+    await checkCollection(launchpeg, state, options)
+    await launchpeg.connect(projectOwner).devMint(config.batchRevealSize * 2)
+
+    const events = await checkCollection(launchpeg, state, options)
+    expect(events.map(({ type }) => type)).to.eql(['revealed'])
+    expect(events[0]).to.include({ batchNumber: 0 })
+    expect(await launchpeg.lastTokenRevealed()).to.eq(config.batchRevealSize)
+
+    // One batch per check
+    const nextEvents = await checkCollection(launchpeg, state, options)
+    expect(nextEvents).to.have.length(1)
+    expect(nextEvents[0]).to.include({ type: 'revealed', batchNumber: 1 })
+    expect(await launchpeg.lastTokenRevealed()).to.eq(config.batchRevealSize * 2)
+  })
+
+  it('Should report the reveals answered by the VRF coordinator', async () => {
+    await setVRF()
+    await checkCollection(launchpeg, state, options)
+    await launchpeg.connect(projectOwner).devMint(config.batchRevealSize)
+
+    const events = await checkCollection(launchpeg, state, options)
+    expect(events.map(({ type }) => type)).to.eql(['requested'])
+    expect(await launchpeg.vrfRequestedForBatch(0)).to.eq(true)
+    expect(await checkCollection(launchpeg, state, options)).to.be.empty
+
+    await coordinatorMock.fulfillRandomWords(1, launchpeg.address)
+    const revealEvents = await checkCollection(launchpeg, state, options)
+    expect(revealEvents.map(({ type }) => type)).to.eql(['revealed'])
+    expect(revealEvents[0]).to.include({ batchNumber: 0 })
+    expect(state[launchpeg.address].pendingBatch).to.be.undefined
+  })
+
+  it('Should report stuck VRF requests once', async () => {
+    await setVRF()
+    await launchpeg.connect(projectOwner).devMint(config.batchRevealSize)
+    await checkCollection(launchpeg, state, options)
+    expect(await checkCollection(launchpeg, state, options)).to.be.empty
+
+    await advanceTimeAndBlock(duration.hours(1))
+    const events = await checkCollection(launchpeg, state, options)
+    expect(events.map(({ type }) => type)).to.eql(['stuck'])
+    expect(events[0]).to.include({ batchNumber: 0 })
+    expect(await checkCollection(launchpeg, state, options)).to.be.empty
+    expect(await launchpeg.lastTokenRevealed()).to.eq(0)
+  })
+
+  it('Should force reveal stuck VRF requests when enabled', async () => {
+    await setVRF()
+    await launchpeg.connect(projectOwner).devMint(config.batchRevealSize)
+    await checkCollection(launchpeg, state, options)
+    await checkCollection(launchpeg, state, options)
+
+    await advanceTimeAndBlock(duration.hours(1))
+    const events = await checkCollection(launchpeg.connect(dev), state, { ...options, forceReveal: true })
+    expect(events.map(({ type }) => type)).to.eql(['forceRevealed', 'revealed'])
+    expect(await launchpeg.lastTokenRevealed()).to.eq(config.batchRevealSize)
+    expect(await launchpeg.hasBeenForceRevealed()).to.eq(true)
+  })
+
+  after(async () => {
+    await network.provider.request({
+      method: 'hardhat_reset',
+      params: [],
+    })
+  })
+})
@@ -0,0 +1,209 @@
+import { deployments, ethers, network, run } from 'hardhat'
+import { expect } from 'chai'
+import fs from 'fs'
+import jsonfile from 'jsonfile'
+import os from 'os'
+import path from 'path'
+import { initializePhasesLaunchpeg, getDefaultLaunchpegConfig, Phase, LaunchpegConfig } from './utils/helpers'
+import { ContractFactory, Contract, utils } from 'ethers'
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
+import { loadSafeBatch } from '../tasks/safe-batch'
+import { getLaunchConfigPath } from '../tasks/utils'
+
+describe('SafeBatch', () => {
+  let launchpegCF: ContractFactory
+  let launchpeg: Contract
+
+  let config: LaunchpegConfig
+
+  let signers: SignerWithAddress[]
+  let alice: SignerWithAddress
+  let bob: SignerWithAddress
+  let projectOwner: SignerWithAddress
+  let royaltyReceiver: SignerWithAddress
+
+  let safe: string
+  let dir: string
+  let batchPath: string
+
+  before(async () => {
+    launchpegCF = await ethers.getContractFactory('Launchpeg')
+
+    signers = await ethers.getSigners()
+    alice = signers[1]
+    bob = signers[2]
+    projectOwner = signers[3]
+    royaltyReceiver = signers[4]
+
+    await network.provider.request({
+      method: 'hardhat_reset',
+      params: [
+        {
+          live: false,
+          saveDeployments: true,
+          tags: ['test', 'local'],
+        },
+      ],
+    })
+  })
+
+  beforeEach(async () => {
+    config = { ...(await getDefaultLaunchpegConfig()) }
+    launchpeg = await launchpegCF.deploy()
+    await launchpeg.initialize(
+      'JoePEG',
+      'JOEPEG',
+      projectOwner.address,
+      royaltyReceiver.address,
+      config.maxBatchSize,
+      config.collectionSize,
+      config.amountForAuction,
+      config.amountForAllowlist,
+      config.amountForDevs,
+      config.batchRevealSize,
+      config.batchRevealStart,
+      config.batchRevealInterval
+    )
+    await initializePhasesLaunchpeg(launchpeg, config, Phase.NotStarted)
+
+    // The collection is owned by a Safe, only the exported batch can configure it
+    safe = ethers.Wallet.createRandom().address
+    await launchpeg.transferOwnership(safe)
+
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'safe-batch-'))
+    batchPath = path.join(dir, 'batch.json')
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('Should replay an exported batch from the Safe', async () => {
+    const csvPath = path.join(dir, 'allowlist.csv')
+    fs.writeFileSync(csvPath, `address,amount\n${alice.address},2\n${bob.address},1\n`)
+
+    await run('set-uris', {
+      contractAddress: launchpeg.address,
+      unrevealedURI: 'ipfs://unrevealed',
+      baseURI: 'ipfs://base/',
+      exportSafe: batchPath,
+    })
+    await run('configure-allowlist', { csvPath, contractAddress: launchpeg.address, exportSafe: batchPath })
+
+    const batch = loadSafeBatch(batchPath)
+    expect(batch.transactions).to.have.length(3)
+    batch.transactions.forEach(({ to }) => expect(to).to.eq(launchpeg.address))
+
+    // Exporting doesn't send anything
+    expect(await launchpeg.baseURI()).to.not.eq('ipfs://base/')
+    expect(await launchpeg.allowlist(alice.address)).to.eq(0)
+
+    await run('replay-safe-batch', { file: batchPath, from: safe })
+
+    expect(await launchpeg.unrevealedURI()).to.eq('ipfs://unrevealed')
+    expect(await launchpeg.baseURI()).to.eq('ipfs://base/')
+    expect(await launchpeg.allowlist(alice.address)).to.eq(2)
+    expect(await launchpeg.allowlist(bob.address)).to.eq(1)
+  })
+
+  it('Should revert when the batch is replayed from another address', async () => {
+    const unrevealedURI = await launchpeg.unrevealedURI()
+    await run('set-uris', {
+      contractAddress: launchpeg.address,
+      unrevealedURI: 'ipfs://unrevealed',
+      baseURI: 'ipfs://base/',
+      exportSafe: batchPath,
+    })
+
+    await expect(run('replay-safe-batch', { file: batchPath, from: alice.address })).to.be.revertedWith(
+      'Ownable: caller is not the owner'
+    )
+    expect(await launchpeg.unrevealedURI()).to.eq(unrevealedURI)
+  })
+
+  describe('deploy-launchpeg', () => {
+    let factory: Contract
+    let configFilename: string
+
+    beforeEach(async () => {
+      // Reverted to a snapshot after the first deployment, so that each test starts with the deployer as owner
+      await deployments.fixture(['LaunchpegFactory'])
+      factory = await ethers.getContractAt('LaunchpegFactory', (await deployments.get('LaunchpegFactory')).address)
+      await factory.transferOwnership(safe)
+
+      const csvPath = path.join(dir, 'allowlist.csv')
+      fs.writeFileSync(csvPath, `address,amount\n${alice.address},2\n`)
+      const configPath = path.join(dir, 'launch.json')
+      jsonfile.writeFileSync(configPath, {
+        name: 'JoePEG',
+        symbol: 'JPEG',
+        projectOwner: projectOwner.address,
+        royaltyReceiver: royaltyReceiver.address,
+        maxBatchSize: '5',
+        collectionSize: '100',
+        amountForAuction: '50',
+        amountForAllowlist: '20',
+        amountForDevs: '10',
+        batchRevealSize: '10',
+        batchRevealStart: '0',
+        batchRevealInterval: '0',
+        auctionSaleStartTime: 'now+10m',
+        auctionStartPrice: utils.parseEther('1').toString(),
+        auctionEndPrice: utils.parseEther('0.1').toString(),
+        auctionDropInterval: '600',
+        allowlistStartTime: 'auctionSaleStartTime+1h',
+        allowlistDiscountPercent: '1000',
+        publicSaleStartTime: 'allowlistStartTime+1h',
+        publicSaleDiscountPercent: '2000',
+        allowlistLocalPath: csvPath,
+        unrevealedURI: 'ipfs://unrevealed',
+        baseURI: 'ipfs://base/',
+      })
+      // Config files are looked up in tasks/config
+      configFilename = path.relative(getLaunchConfigPath(''), configPath)
+    })
+
+    it('Should create and configure the predicted collection when the batch is replayed', async () => {
+      const launchpegAddress = await run('deploy-launchpeg', { configFilename, exportSafe: batchPath, safe })
+      expect(await ethers.provider.getCode(launchpegAddress)).to.eq('0x')
+
+      const batch = loadSafeBatch(batchPath)
+      expect(batch.transactions.map(({ to }) => to)).to.eql([
+        factory.address,
+        launchpegAddress,
+        launchpegAddress,
+        launchpegAddress,
+        launchpegAddress,
+      ])
+
+      await run('replay-safe-batch', { file: batchPath, from: safe })
+
+      const created = await ethers.getContractAt('Launchpeg', launchpegAddress)
+      expect(await created.owner()).to.eq(safe)
+      expect(await created.projectOwner()).to.eq(projectOwner.address)
+      expect(await created.collectionSize()).to.eq(100)
+      expect(await created.auctionSaleStartTime()).to.be.gt(0)
+      expect(await created.allowlist(alice.address)).to.eq(2)
+      expect(await created.unrevealedURI()).to.eq('ipfs://unrevealed')
+      expect(await created.baseURI()).to.eq('ipfs://base/')
+    })
+
+    it('Should refuse to export a batch the Safe could not execute', async () => {
+      const projectOwnerSafe = ethers.Wallet.createRandom().address
+      const error = await run('deploy-launchpeg', {
+        configFilename,
+        exportSafe: batchPath,
+        safe: projectOwnerSafe,
+      }).catch((err: Error) => err)
+      expect(error).to.be.an('error').with.property('message').that.contains(`not by ${projectOwnerSafe}`)
+      expect(fs.existsSync(batchPath)).to.be.false
+    })
+  })
+
+  after(async () => {
+    await network.provider.request({
+      method: 'hardhat_reset',
+      params: [],
+    })
+  })
+})
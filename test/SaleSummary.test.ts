@@ -0,0 +1,118 @@
+import { expect } from 'chai'
+import { BigNumber, utils } from 'ethers'
+import { Phase } from '../tasks/lens'
+import { SaleState, summarizeSale } from '../tasks/sale-summary'
+import { SaleRecord } from '../tasks/sales-indexer'
+
+describe('SaleSummary', () => {
+  const alice = '0x5B38Da6a701c568545dCfcB03FcB875f56beddC4'
+  const bob = '0xAb8483F64d9C6d1EcF9b849Ae677dD3315835cb2'
+  const dev = '0x4B20993Bc481177ec7E8f571ceCaE8A9e22C02db'
+
+  const avax = (amount: string) => utils.parseEther(amount)
+
+  let logIndex = 0
+  const base = () => ({ blockNumber: 1, blockTimestamp: 1, transactionHash: `0x${++logIndex}`, logIndex })
+  const mint = (phase: Phase, sender: string, quantity: number, price: string): SaleRecord => ({
+    ...base(),
+    event: 'Mint',
+    sender,
+    quantity,
+    price: avax(price).toString(),
+    startTokenId: 0,
+    phase,
+  })
+
+  const records: SaleRecord[] = [
+    mint('DutchAuction', alice, 2, '1'),
+    mint('DutchAuction', bob, 1, '0.9'),
+    mint('Allowlist', alice, 1, '0.5'),
+    { ...base(), event: 'DevMint', sender: dev, quantity: 5 },
+    { ...base(), event: 'AvaxWithdraw', sender: dev, amount: avax('1.9').toString(), fee: avax('0.1').toString() },
+  ]
+
+  const getState = ({ allowlistMinted = 1, balance = avax('1.4') } = {}): SaleState => ({
+    status: {
+      address: alice,
+      type: 'Launchpeg',
+      name: 'JoePEG',
+      symbol: 'JOEPEG',
+      collectionSize: 100,
+      maxBatchSize: 5,
+      totalSupply: 9,
+      currentPhase: 'PublicSale',
+      phases: [
+        { phase: 'DutchAuction', startTime: 0, price: '0.9', minted: 3, allocation: 50 },
+        { phase: 'Allowlist', startTime: 0, price: '0.5', minted: allowlistMinted, allocation: 20 },
+        { phase: 'PublicSale', startTime: 0, price: '0.6', minted: 0, allocation: 25 },
+      ],
+      devs: { minted: 5, allocation: 5 },
+      reveal: { batchSize: 10, lastTokenRevealed: 0 },
+    },
+    amountMintedByDevs: 5,
+    balance,
+    joeFeePercent: 500,
+  })
+
+  it('Should total the mints of each phase', () => {
+    const summary = summarizeSale(records, getState(), 10)
+
+    expect(
+      summary.phases.map(({ phase, mints, quantity, revenue, averagePrice, uniqueMinters, counter }) => ({
+        phase,
+        mints,
+        quantity,
+        revenue: utils.formatEther(revenue),
+        averagePrice: utils.formatEther(averagePrice),
+        uniqueMinters,
+        counter,
+      }))
+    ).to.eql([
+      {
+        phase: 'DutchAuction',
+        mints: 2,
+        quantity: 3,
+        revenue: '2.9',
+        averagePrice: '0.966666666666666666',
+        uniqueMinters: 2,
+        counter: 3,
+      },
+      { phase: 'Allowlist', mints: 1, quantity: 1, revenue: '0.5', averagePrice: '0.5', uniqueMinters: 1, counter: 1 },
+      { phase: 'PublicSale', mints: 0, quantity: 0, revenue: '0.0', averagePrice: '0.0', uniqueMinters: 0, counter: 0 },
+      { phase: 'Devs', mints: 1, quantity: 5, revenue: '0.0', averagePrice: '0.0', uniqueMinters: 1, counter: 5 },
+    ])
+    expect(summary.quantity).to.eq(9)
+    expect(summary.revenue).to.eq(avax('3.4'))
+    // Dev mints are free, they are left out of the average price
+    expect(summary.averagePrice).to.eq(avax('0.85'))
+    expect(summary.uniqueMinters).to.eq(2)
+    expect(summary.topWallets.map(({ address, quantity }) => [address, quantity])).to.eql([
+      [alice, 3],
+      [bob, 1],
+    ])
+    expect(summary.discrepancies).to.be.empty
+  })
+
+  it('Should report a phase whose counter does not match the events', () => {
+    const { discrepancies } = summarizeSale(records, getState({ allowlistMinted: 2 }), 10)
+
+    expect(discrepancies).to.eql(['Allowlist: 1 minted according to the events, 2 according to the contract'])
+  })
+
+  it('Should report a balance that does not match the mints and withdrawals', () => {
+    const summary = summarizeSale(records, getState({ balance: avax('1.3') }), 10)
+
+    expect(summary.withdrawn).to.eq(avax('2'))
+    expect(summary.expectedBalance).to.eq(avax('1.4'))
+    expect(summary.discrepancies).to.eql(['Balance is 1.3 AVAX, 1.4 AVAX expected from the mints and withdrawals'])
+  })
+
+  it('Should compute the fee due on the balance with the rounding of withdrawAVAX', () => {
+    const summary = summarizeSale(records, getState(), 10)
+    expect(summary.joeFeePercent).to.eq(500)
+    expect(summary.joeFeePaid).to.eq(avax('0.1'))
+    expect(summary.joeFeePending).to.eq(avax('0.07'))
+    // 5% of 199 wei is 9.95 wei, rounded down
+    expect(summarizeSale(records, getState({ balance: BigNumber.from(199) }), 10).joeFeePending).to.eq(9)
+  })
+})
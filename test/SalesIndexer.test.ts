@@ -0,0 +1,177 @@
+import { ethers, network } from 'hardhat'
+import { expect } from 'chai'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { advanceTimeAndBlock, latest } from './utils/time'
+import {
+  initializePhasesLaunchpeg,
+  initializePhasesFlatLaunchpeg,
+  getDefaultLaunchpegConfig,
+  Phase,
+  LaunchpegConfig,
+} from './utils/helpers'
+import { ContractFactory, Contract } from 'ethers'
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
+import { getSalesStore, indexSales, loadCheckpoint, readSaleRecords, SalesStore } from '../tasks/sales-indexer'
+
+describe('SalesIndexer', () => {
+  let launchpegCF: ContractFactory
+  let flatLaunchpegCF: ContractFactory
+  let launchpeg: Contract
+  let flatLaunchpeg: Contract
+
+  let config: LaunchpegConfig
+  let store: SalesStore
+
+  let signers: SignerWithAddress[]
+  let projectOwner: SignerWithAddress
+  let royaltyReceiver: SignerWithAddress
+  let alice: SignerWithAddress
+  let bob: SignerWithAddress
+
+  before(async () => {
+    launchpegCF = await ethers.getContractFactory('Launchpeg')
+    flatLaunchpegCF = await ethers.getContractFactory('FlatLaunchpeg')
+
+    signers = await ethers.getSigners()
+    alice = signers[1]
+    bob = signers[2]
+    projectOwner = signers[3]
+    royaltyReceiver = signers[4]
+
+    await network.provider.request({
+      method: 'hardhat_reset',
+      params: [
+        {
+          live: false,
+          saveDeployments: true,
+          tags: ['test', 'local'],
+        },
+      ],
+    })
+  })
+
+  beforeEach(async () => {
+    config = { ...(await getDefaultLaunchpegConfig()) }
+    store = getSalesStore(fs.mkdtempSync(path.join(os.tmpdir(), 'sales-')))
+  })
+
+  const index = async (contract: Contract, type: 'Launchpeg' | 'FlatLaunchpeg') =>
+    indexSales(contract, type, store, {
+      fromBlock: 0,
+      toBlock: await ethers.provider.getBlockNumber(),
+      // Small ranges, so that the records span several calls
+      blockRange: 3,
+    })
+
+  it('Should only index new blocks on each run', async () => {
+    launchpeg = await launchpegCF.deploy()
+    await launchpeg.initialize(
+      'JoePEG',
+      'JOEPEG',
+      projectOwner.address,
+      royaltyReceiver.address,
+      config.maxBatchSize,
+      config.collectionSize,
+      config.amountForAuction,
+      config.amountForAllowlist,
+      config.amountForDevs,
+      config.batchRevealSize,
+      config.batchRevealStart,
+      config.batchRevealInterval
+    )
+    await initializePhasesLaunchpeg(launchpeg, config, Phase.DutchAuction)
+    await launchpeg.connect(projectOwner).devMint(config.maxBatchSize)
+
+    expect(await index(launchpeg, 'Launchpeg')).to.eq(1 + config.maxBatchSize)
+    expect(loadCheckpoint(store)!.lastBlock).to.eq(await ethers.provider.getBlockNumber())
+
+    await launchpeg.connect(alice).auctionMint(2, { value: config.startPrice.mul(2) })
+    expect(await index(launchpeg, 'Launchpeg')).to.eq(1 + 2)
+
+    const records = readSaleRecords(store)
+    expect(records.map(({ event }) => event)).to.eql([
+      ...Array(config.maxBatchSize).fill('Transfer'),
+      'DevMint',
+      'Transfer',
+      'Transfer',
+      'Mint',
+    ])
+    expect(records[records.length - 1]).to.include({
+      event: 'Mint',
+      sender: alice.address,
+      quantity: 2,
+      price: config.startPrice.toString(),
+      startTokenId: config.maxBatchSize,
+      phase: 'DutchAuction',
+    })
+    expect(await index(launchpeg, 'Launchpeg')).to.eq(0)
+  })
+
+  it('Should drop the records of an interrupted run', async () => {
+    launchpeg = await launchpegCF.deploy()
+    await launchpeg.initialize(
+      'JoePEG',
+      'JOEPEG',
+      projectOwner.address,
+      royaltyReceiver.address,
+      config.maxBatchSize,
+      config.collectionSize,
+      config.amountForAuction,
+      config.amountForAllowlist,
+      config.amountForDevs,
+      config.batchRevealSize,
+      config.batchRevealStart,
+      config.batchRevealInterval
+    )
+    await initializePhasesLaunchpeg(launchpeg, config, Phase.DutchAuction)
+    await index(launchpeg, 'Launchpeg')
+
+    await launchpeg.connect(projectOwner).devMint(config.maxBatchSize)
+    // Record appended by a run that stopped before saving its checkpoint
+    const blockNumber = await ethers.provider.getBlockNumber()
+    fs.appendFileSync(store.recordsPath, JSON.stringify({ event: 'DevMint', blockNumber }) + '\n')
+
+    expect(await index(launchpeg, 'Launchpeg')).to.eq(1 + config.maxBatchSize)
+    expect(readSaleRecords(store).filter(({ event }) => event === 'DevMint')).to.have.length(1)
+  })
+
+  it('Should derive the phase of FlatLaunchpeg mints', async () => {
+    flatLaunchpeg = await flatLaunchpegCF.deploy()
+    await flatLaunchpeg.initialize(
+      'JoePEG',
+      'JOEPEG',
+      projectOwner.address,
+      royaltyReceiver.address,
+      config.maxBatchSize,
+      config.collectionSize,
+      config.amountForDevs,
+      config.amountForAllowlist,
+      config.batchRevealSize,
+      config.batchRevealStart,
+      config.batchRevealInterval
+    )
+    await initializePhasesFlatLaunchpeg(flatLaunchpeg, config, Phase.Allowlist)
+    await flatLaunchpeg.seedAllowlist([bob.address], [1])
+    await flatLaunchpeg.connect(bob).allowlistMint(1, { value: config.flatAllowlistSalePrice })
+    await advanceTimeAndBlock(config.publicSaleStartTime.sub(await latest()))
+    await flatLaunchpeg.connect(alice).publicSaleMint(1, { value: config.flatPublicSalePrice })
+
+    await index(flatLaunchpeg, 'FlatLaunchpeg')
+
+    const mints = readSaleRecords(store).filter(({ event }) => event === 'Mint')
+    expect(mints.map((mint) => mint.event === 'Mint' && [mint.sender, mint.phase, mint.price])).to.eql([
+      [bob.address, 'Allowlist', config.flatAllowlistSalePrice.toString()],
+      [alice.address, 'PublicSale', config.flatPublicSalePrice.toString()],
+    ])
+    expect(readSaleRecords(store).some(({ event }) => event === 'AllowlistSeeded')).to.eq(true)
+  })
+
+  after(async () => {
+    await network.provider.request({
+      method: 'hardhat_reset',
+      params: [],
+    })
+  })
+})
@@ -0,0 +1,329 @@
+import { ethers, network } from 'hardhat'
+import { expect } from 'chai'
+import fc from 'fast-check'
+import { advanceTimeAndBlock, duration } from './utils/time'
+import {
+  initializePhasesLaunchpeg,
+  initializePhasesFlatLaunchpeg,
+  getDefaultLaunchpegConfig,
+  Phase,
+  LaunchpegConfig,
+} from './utils/helpers'
+import { ContractFactory, Contract, BigNumber, ContractReceipt, ContractTransaction } from 'ethers'
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
+
+// Sequences generated for each contract, SUPPLY_INVARIANTS_RUNS searches longer
+const NUM_RUNS = Number(process.env.SUPPLY_INVARIANTS_RUNS ?? 10)
+// The seed and path printed by fast-check on failure replay the shrunk sequence, the replayPath printed in the
+// counterexample restores the commands that were removed while shrinking
+const REPLAY = process.env.SUPPLY_INVARIANTS_SEED
+  ? { seed: Number(process.env.SUPPLY_INVARIANTS_SEED), path: process.env.SUPPLY_INVARIANTS_PATH, endOnFailure: true }
+  : {}
+const REPLAY_COMMANDS = process.env.SUPPLY_INVARIANTS_REPLAY_PATH
+
+const MAX_COMMANDS = 30
+const MAX_BATCH_SIZE = 5
+const NUM_BUYERS = 4
+
+// Mint called in each phase, the public sale mint reverts before the sale starts
+const MINT_METHODS: { [phase: number]: string } = {
+  [Phase.NotStarted]: 'publicSaleMint',
+  [Phase.DutchAuction]: 'auctionMint',
+  [Phase.Allowlist]: 'allowlistMint',
+  [Phase.PublicSale]: 'publicSaleMint',
+}
+
+interface SaleModel {
+  // Balance of the contract at deployment, its address can already hold some AVAX
+  initialBalance: BigNumber
+  // Price times quantity of the Mint events
+  paid: BigNumber
+  // Amount sent to the recipient and to the fee collector by withdrawals
+  withdrawn: BigNumber
+}
+
+interface Sale {
+  launchpeg: Contract
+  isFlat: boolean
+}
+
+type SaleCommand = fc.AsyncCommand<SaleModel, Sale>
+
+describe('Supply invariants', () => {
+  let launchpegCF: ContractFactory
+  let flatLaunchpegCF: ContractFactory
+
+  let config: LaunchpegConfig
+
+  let signers: SignerWithAddress[]
+  let dev: SignerWithAddress
+  let projectOwner: SignerWithAddress
+  let royaltyReceiver: SignerWithAddress
+  let buyers: SignerWithAddress[]
+
+  const withdrawalRecipient = ethers.Wallet.createRandom().address
+  const feeCollector = ethers.Wallet.createRandom().address
+
+  before(async () => {
+    launchpegCF = await ethers.getContractFactory('Launchpeg')
+    flatLaunchpegCF = await ethers.getContractFactory('FlatLaunchpeg')
+
+    signers = await ethers.getSigners()
+    dev = signers[0]
+    projectOwner = signers[3]
+    royaltyReceiver = signers[4]
+    buyers = signers.slice(5, 5 + NUM_BUYERS)
+
+    await network.provider.request({
+      method: 'hardhat_reset',
+      params: [
+        {
+          live: false,
+          saveDeployments: true,
+          tags: ['test', 'local'],
+        },
+      ],
+    })
+  })
+
+  // Small collections, so that the sequences reach the supply limits. The amounts are clamped rather than chained so
+  // that fast-check shrinks the collection and the sequence independently
+  const saleArbitrary = fc
+    .record({
+      maxBatchSize: fc.integer({ min: 1, max: MAX_BATCH_SIZE }),
+      collectionSize: fc.integer({ min: MAX_BATCH_SIZE, max: 30 }),
+      amountForDevs: fc.nat(30),
+      amountForAllowlist: fc.nat(30),
+      amountForAuction: fc.nat(30),
+      joeFeePercent: fc.nat(1000),
+    })
+    .map((sale) => {
+      const amountForDevs = Math.min(sale.amountForDevs, sale.collectionSize)
+      const amountForAllowlist = Math.min(sale.amountForAllowlist, sale.collectionSize - amountForDevs)
+      const amountForAuction = Math.min(sale.amountForAuction, sale.collectionSize - amountForDevs - amountForAllowlist)
+      return { ...sale, amountForDevs, amountForAllowlist, amountForAuction }
+    })
+
+  const deploySale = async (
+    isFlat: boolean,
+    sale: { maxBatchSize: number; collectionSize: number; joeFeePercent: number } & Pick<
+      LaunchpegConfig,
+      'amountForDevs' | 'amountForAllowlist' | 'amountForAuction'
+    >
+  ): Promise<Contract> => {
+    config = { ...(await getDefaultLaunchpegConfig()), ...sale }
+    config.batchRevealSize = config.collectionSize
+
+    let launchpeg: Contract
+    if (isFlat) {
+      launchpeg = await flatLaunchpegCF.deploy()
+      await launchpeg.initialize(
+        'JoePEG',
+        'JOEPEG',
+        projectOwner.address,
+        royaltyReceiver.address,
+        config.maxBatchSize,
+        config.collectionSize,
+        config.amountForDevs,
+        config.amountForAllowlist,
+        config.batchRevealSize,
+        config.batchRevealStart,
+        config.batchRevealInterval
+      )
+      await initializePhasesFlatLaunchpeg(launchpeg, config, Phase.NotStarted)
+    } else {
+      launchpeg = await launchpegCF.deploy()
+      await launchpeg.initialize(
+        'JoePEG',
+        'JOEPEG',
+        projectOwner.address,
+        royaltyReceiver.address,
+        config.maxBatchSize,
+        config.collectionSize,
+        config.amountForAuction,
+        config.amountForAllowlist,
+        config.amountForDevs,
+        config.batchRevealSize,
+        config.batchRevealStart,
+        config.batchRevealInterval
+      )
+      await initializePhasesLaunchpeg(launchpeg, config, Phase.NotStarted)
+    }
+    await launchpeg.initializeJoeFee(sale.joeFeePercent, feeCollector)
+    return launchpeg
+  }
+
+  /**
+   * Reverts are part of the sequences, any other error fails the run
+   * @returns The receipt, or undefined if the transaction reverted
+   */
+  const allowRevert = async (tx: Promise<ContractTransaction>): Promise<ContractReceipt | undefined> => {
+    try {
+      return await (await tx).wait()
+    } catch (err) {
+      if (!(err instanceof Error) || !err.message.includes('reverted')) {
+        throw err
+      }
+    }
+  }
+
+  const expectInvariants = async ({ initialBalance, paid, withdrawn }: SaleModel, { launchpeg, isFlat }: Sale) => {
+    const totalSupply = (await launchpeg.totalSupply()).toNumber()
+    const amountMintedByDevs = (await launchpeg.amountMintedByDevs()).toNumber()
+    const amountMinted = [
+      isFlat ? 0 : (await launchpeg.amountMintedDuringAuction()).toNumber(),
+      (await launchpeg.amountMintedDuringAllowlist()).toNumber(),
+      (await launchpeg.amountMintedDuringPublicSale()).toNumber(),
+      amountMintedByDevs,
+    ]
+    expect(totalSupply, 'totalSupply is the sum of the amounts minted').to.eq(amountMinted.reduce((a, b) => a + b))
+    expect(totalSupply, 'totalSupply is at most collectionSize').to.be.lte(config.collectionSize)
+
+    // FlatLaunchpeg's public sale doesn't reserve the dev amount, it can mint the whole collection
+    if (!isFlat) {
+      const devsLeft = config.amountForDevs - amountMintedByDevs
+      expect(config.collectionSize - totalSupply, 'The dev reserve is left unminted').to.be.gte(devsLeft)
+      // Dev mints are done by multiples of maxBatchSize
+      const devQuantity = Math.floor(devsLeft / config.maxBatchSize) * config.maxBatchSize
+      if (devQuantity > 0) {
+        await launchpeg.connect(projectOwner).callStatic.devMint(devQuantity)
+      }
+    }
+
+    expect(await ethers.provider.getBalance(launchpeg.address), 'The balance is the sum of paid prices').to.eq(
+      initialBalance.add(paid).sub(withdrawn)
+    )
+  }
+
+  const mintCommand = (buyer: number, quantity: number, overpay: boolean): SaleCommand => ({
+    check: () => true,
+    run: async (model, sale) => {
+      const { launchpeg, isFlat } = sale
+      const phase: Phase = await launchpeg.currentPhase()
+      let price = BigNumber.from(0)
+      if (phase === Phase.DutchAuction) {
+        // The price can only drop before the transaction is mined, the difference is refunded
+        price = await launchpeg.auctionStartPrice()
+      } else if (phase === Phase.Allowlist) {
+        price = isFlat ? await launchpeg.allowlistPrice() : await launchpeg.getAllowlistPrice()
+      } else if (phase === Phase.PublicSale) {
+        price = isFlat ? await launchpeg.salePrice() : await launchpeg.getPublicSalePrice()
+      }
+      const value = price.mul(quantity).mul(overpay ? 2 : 1)
+
+      const receipt = await allowRevert(launchpeg.connect(buyers[buyer])[MINT_METHODS[phase]](quantity, { value }))
+      const mint = receipt?.events?.find(({ event }) => event === 'Mint')
+      if (mint) {
+        model.paid = model.paid.add(mint.args?.price.mul(mint.args?.quantity))
+      }
+      await expectInvariants(model, sale)
+    },
+    toString: () => `mint(buyer ${buyer}, ${quantity}${overpay ? ', overpay' : ''})`,
+  })
+
+  const seedAllowlistCommand = (spots: number[]): SaleCommand => ({
+    check: () => true,
+    run: async (model, sale) => {
+      await allowRevert(
+        sale.launchpeg.seedAllowlist(
+          buyers.map(({ address }) => address),
+          spots
+        )
+      )
+      await expectInvariants(model, sale)
+    },
+    toString: () => `seedAllowlist(${spots.join(', ')})`,
+  })
+
+  const devMintCommand = (batches: number): SaleCommand => ({
+    check: () => true,
+    run: async (model, sale) => {
+      const { launchpeg } = sale
+      const quantity = batches * config.maxBatchSize
+      const devsLeft = config.amountForDevs - (await launchpeg.amountMintedByDevs()).toNumber()
+      const totalSupply = (await launchpeg.totalSupply()).toNumber()
+      if (totalSupply + quantity > config.collectionSize) {
+        await expect(launchpeg.connect(projectOwner).devMint(quantity)).to.be.revertedWith(
+          'Launchpeg__MaxSupplyReached()'
+        )
+      } else if (quantity > devsLeft) {
+        await expect(launchpeg.connect(projectOwner).devMint(quantity)).to.be.revertedWith(
+          'Launchpeg__MaxSupplyForDevReached()'
+        )
+      } else {
+        await launchpeg.connect(projectOwner).devMint(quantity)
+      }
+      await expectInvariants(model, sale)
+    },
+    toString: () => `devMint(${batches} batches)`,
+  })
+
+  const timeJumpCommand = (minutes: number): SaleCommand => ({
+    check: () => true,
+    run: async (model, sale) => {
+      await advanceTimeAndBlock(duration.minutes(minutes))
+      await expectInvariants(model, sale)
+    },
+    toString: () => `timeJump(${minutes} minutes)`,
+  })
+
+  const withdrawCommand = (): SaleCommand => ({
+    check: () => true,
+    run: async (model, sale) => {
+      const { launchpeg } = sale
+      const balances = async () =>
+        (await ethers.provider.getBalance(withdrawalRecipient)).add(await ethers.provider.getBalance(feeCollector))
+      const balancesBefore = await balances()
+      await launchpeg.connect(dev).withdrawAVAX(withdrawalRecipient)
+      model.withdrawn = model.withdrawn.add((await balances()).sub(balancesBefore))
+      await expectInvariants(model, sale)
+    },
+    toString: () => 'withdraw()',
+  })
+
+  const commandsArbitrary = fc.commands(
+    [
+      fc
+        .tuple(fc.nat(NUM_BUYERS - 1), fc.integer({ min: 1, max: MAX_BATCH_SIZE + 1 }), fc.boolean())
+        .map(([buyer, quantity, overpay]) => mintCommand(buyer, quantity, overpay)),
+      fc
+        .array(fc.nat(MAX_BATCH_SIZE), { minLength: NUM_BUYERS, maxLength: NUM_BUYERS })
+        .map((spots) => seedAllowlistCommand(spots)),
+      fc.integer({ min: 1, max: 3 }).map((batches) => devMintCommand(batches)),
+      // The phases start 10, 110 and 210 minutes after the deployment
+      fc.integer({ min: 1, max: 120 }).map((minutes) => timeJumpCommand(minutes)),
+      fc.constant(null).map(() => withdrawCommand()),
+    ],
+    { maxCommands: MAX_COMMANDS, replayPath: REPLAY_COMMANDS }
+  )
+
+  const runSequences = async (isFlat: boolean) => {
+    await fc.assert(
+      fc.asyncProperty(fc.tuple(saleArbitrary, commandsArbitrary), async ([sale, commands]) => {
+        const launchpeg = await deploySale(isFlat, sale)
+        const model: SaleModel = {
+          initialBalance: await ethers.provider.getBalance(launchpeg.address),
+          paid: BigNumber.from(0),
+          withdrawn: BigNumber.from(0),
+        }
+        await fc.asyncModelRun(() => ({ model, real: { launchpeg, isFlat } }), commands)
+      }),
+      { numRuns: NUM_RUNS, ...REPLAY }
+    )
+  }
+
+  it('Should keep the supply and the balance consistent through random Launchpeg sales', async () => {
+    await runSequences(false)
+  })
+
+  it('Should keep the supply and the balance consistent through random FlatLaunchpeg sales', async () => {
+    await runSequences(true)
+  })
+
+  after(async () => {
+    await network.provider.request({
+      method: 'hardhat_reset',
+      params: [],
+    })
+  })
+})
@@ -0,0 +1,128 @@
+import { expect } from 'chai'
+import { FlatLaunchConfig, LaunchConfig } from '../tasks/launch-config'
+import { parseDuration, resolveTimeExpression, resolveTimestamps, TimeField } from '../tasks/timestamps'
+
+describe('Timestamps', () => {
+  const now = 1650000000
+
+  const noReference = (field: TimeField): number => {
+    throw new Error(`Unexpected reference to ${field}`)
+  }
+
+  const getLaunchConfig = (times: Partial<Record<TimeField, string | number>>): LaunchConfig =>
+    ({ name: 'JoePEG', auctionDropInterval: '600', ...times } as unknown as LaunchConfig)
+
+  const getFlatLaunchConfig = (times: Partial<Record<TimeField, string | number>>): FlatLaunchConfig =>
+    ({ name: 'FlatJoePEG', allowlistPrice: '0', salePrice: '0', ...times } as unknown as FlatLaunchConfig)
+
+  describe('parseDuration', () => {
+    it('Should convert each unit and their combinations to seconds', () => {
+      expect(parseDuration('30s')).to.eq(30)
+      expect(parseDuration('10m')).to.eq(600)
+      expect(parseDuration('2h')).to.eq(7200)
+      expect(parseDuration('1w')).to.eq(604800)
+      expect(parseDuration('1d12h')).to.eq(129600)
+    })
+
+    it('Should reject malformed durations', () => {
+      for (const duration of ['', '10', 'm', '1.5h', '1y', '1d 12h']) {
+        expect(() => parseDuration(duration), duration).to.throw('Invalid duration')
+      }
+    })
+  })
+
+  describe('resolveTimeExpression', () => {
+    it('Should resolve timestamps and ISO-8601 dates', () => {
+      expect(resolveTimeExpression(1650060142, now, noReference)).to.eq(1650060142)
+      expect(resolveTimeExpression('1650060142', now, noReference)).to.eq(1650060142)
+      expect(resolveTimeExpression('2022-04-15T22:00:00Z', now, noReference)).to.eq(1650060000)
+      expect(resolveTimeExpression('2022-04-16T00:00:00+02:00', now, noReference)).to.eq(1650060000)
+    })
+
+    it('Should reject ISO-8601 dates without a time zone', () => {
+      expect(() => resolveTimeExpression('2022-04-15T22:00:00', now, noReference)).to.throw(
+        'ISO-8601 dates must include a time zone'
+      )
+    })
+
+    it('Should resolve offsets from now', () => {
+      expect(resolveTimeExpression('now', now, noReference)).to.eq(now)
+      expect(resolveTimeExpression('now+30m', now, noReference)).to.eq(now + 1800)
+      expect(resolveTimeExpression('+2h', now, noReference)).to.eq(now + 7200)
+      expect(resolveTimeExpression(' now + 1d - 1h ', now, noReference)).to.eq(now + 82800)
+    })
+
+    it('Should resolve offsets from another field', () => {
+      const resolveField = (field: TimeField) => (field === 'auctionSaleStartTime' ? 1650060000 : noReference(field))
+      expect(resolveTimeExpression('auctionSaleStartTime + 1d', now, resolveField)).to.eq(1650146400)
+    })
+
+    it('Should reject unknown expressions', () => {
+      expect(() => resolveTimeExpression('tomorrow', now, noReference)).to.throw('Unknown time expression "tomorrow"')
+      expect(() => resolveTimeExpression('saleStart+1h', now, noReference)).to.throw('Unknown time expression')
+    })
+  })
+
+  describe('resolveTimestamps', () => {
+    it('Should resolve references between fields in any order', () => {
+      const launchConfig = resolveTimestamps(
+        getLaunchConfig({
+          publicSaleStartTime: 'allowlistStartTime + 12h',
+          allowlistStartTime: 'auctionSaleStartTime + 1d',
+          auctionSaleStartTime: '2022-04-15T22:00:00Z',
+          batchRevealStart: 0,
+        }),
+        now
+      )
+      expect(launchConfig.auctionSaleStartTime).to.eq(1650060000)
+      expect(launchConfig.allowlistStartTime).to.eq(1650146400)
+      expect(launchConfig.publicSaleStartTime).to.eq(1650189600)
+      expect(launchConfig.batchRevealStart).to.eq(0)
+    })
+
+    it('Should reject a reference cycle', () => {
+      const launchConfig = getLaunchConfig({
+        auctionSaleStartTime: 'publicSaleStartTime - 1d',
+        allowlistStartTime: 'auctionSaleStartTime + 1d',
+        publicSaleStartTime: 'allowlistStartTime + 1h',
+      })
+      expect(() => resolveTimestamps(launchConfig, now)).to.throw(
+        'Circular time reference: auctionSaleStartTime -> publicSaleStartTime -> allowlistStartTime -> auctionSaleStartTime'
+      )
+    })
+
+    it('Should reject a reference to a field that is not set', () => {
+      const flatLaunchConfig = getFlatLaunchConfig({
+        allowlistStartTime: 'auctionSaleStartTime + 1h',
+        publicSaleStartTime: 'allowlistStartTime + 1h',
+      })
+      expect(() => resolveTimestamps(flatLaunchConfig, now)).to.throw(
+        'allowlistStartTime references auctionSaleStartTime, which is not set'
+      )
+    })
+
+    it('Should resolve the legacy "Soon" keyword', () => {
+      const launchConfig = resolveTimestamps(
+        getLaunchConfig({ auctionSaleStartTime: 'Soon', allowlistStartTime: 'Soon', publicSaleStartTime: 'Soon' }),
+        now
+      )
+      expect(launchConfig.auctionSaleStartTime).to.eq(now + 120)
+      // 5 drops of auctionDropInterval
+      expect(launchConfig.allowlistStartTime).to.eq(now + 120 + 3000)
+      expect(launchConfig.publicSaleStartTime).to.eq(now + 120 + 3000 + 120)
+
+      const flatLaunchConfig = resolveTimestamps(
+        getFlatLaunchConfig({ allowlistStartTime: 'Soon', publicSaleStartTime: 'Soon' }),
+        now
+      )
+      expect(flatLaunchConfig.allowlistStartTime).to.eq(now + 120)
+      expect(flatLaunchConfig.publicSaleStartTime).to.eq(now + 240)
+    })
+
+    it('Should reject "Soon" for the reveal fields', () => {
+      expect(() => resolveTimestamps(getLaunchConfig({ batchRevealStart: 'Soon' }), now)).to.throw(
+        '"Soon" is not supported for batchRevealStart'
+      )
+    })
+  })
+})
@@ -0,0 +1,57 @@
+import hre, { deployments, network } from 'hardhat'
+import { expect } from 'chai'
+import { resolveContractAddress, resolveFromBlock } from '../tasks/utils'
+
+describe('Utils', () => {
+  const address = '0x5B38Da6a701c568545dCfcB03FcB875f56beddC4'
+
+  before(async () => {
+    await network.provider.request({
+      method: 'hardhat_reset',
+      params: [
+        {
+          live: false,
+          saveDeployments: true,
+          tags: ['test', 'local'],
+        },
+      ],
+    })
+  })
+
+  describe('resolveContractAddress', () => {
+    it('Should checksum addresses', async () => {
+      expect(await resolveContractAddress(hre, address.toLowerCase())).to.eq(address)
+      expect(await resolveContractAddress(hre, address)).to.eq(address)
+    })
+
+    it('Should reject unknown deployment names', async () => {
+      const error = await resolveContractAddress(hre, 'Launchpeg_UNKNOWN').catch((err: Error) => err)
+      expect(error)
+        .to.be.an('error')
+        .with.property('message')
+        .that.eq('Launchpeg_UNKNOWN is neither an address nor a deployment on hardhat')
+    })
+  })
+
+  describe('resolveFromBlock', () => {
+    it('Should default to the creation block of the saved deployment', async () => {
+      await deployments.fixture(['LaunchpegFactory'])
+      const { address, receipt } = await deployments.get('LaunchpegFactory')
+
+      expect(receipt?.blockNumber).to.be.gt(0)
+      expect(await resolveFromBlock(hre, address.toLowerCase())).to.eq(receipt?.blockNumber)
+      expect(await resolveFromBlock(hre, address, 1)).to.eq(1)
+    })
+
+    it('Should start from the genesis block on a local network without a deployment', async () => {
+      expect(await resolveFromBlock(hre, address)).to.eq(0)
+    })
+  })
+
+  after(async () => {
+    await network.provider.request({
+      method: 'hardhat_reset',
+      params: [],
+    })
+  })
+})